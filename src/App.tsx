@@ -1,4 +1,4 @@
-import React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Header } from "./components/Header";
 import { MasonryGrid } from "./components/MasonryGrid";
 import { AudioControlBar } from "./components/AudioControlBar";
@@ -6,39 +6,284 @@ import { LoginScreen } from "./components/LoginScreen";
 import { AuthCallback } from "./components/AuthCallback";
 import { LoadingSpinner } from "./components/LoadingSpinner";
 import { SearchBar } from "./components/SearchBar";
+import { MoodSettingsPanel } from "./components/MoodSettingsPanel";
+import { SavePlaylistDialog } from "./components/SavePlaylistDialog";
 import { useAppState } from "./hooks/useAppState";
-import { useSpotifyPlayer } from "./components/SpotifyPlayer";
+import { usePlaybackQueue } from "./hooks/usePlaybackQueue";
+import { usePlaybackClock } from "./hooks/usePlaybackClock";
+import { QueueDrawer } from "./components/QueueDrawer";
+import { ShortcutsHelp } from "./components/ShortcutsHelp";
+import { HistoryTimeline } from "./components/HistoryTimeline";
+import { PlayerStatusBanner } from "./components/PlayerStatusBanner";
+import { useMediaSession } from "./hooks/useMediaSession";
+import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
+import { useListeningLog } from "./hooks/useListeningLog";
+import { useSpotifyPlayer } from "./hooks/useSpotifyPlayer";
+import { useSleepTimer } from "./hooks/useSleepTimer";
+import { useCapabilities } from "./hooks/useCapabilities";
+import type { ResumeAction } from "./hooks/useCapabilities";
+import { PermissionPrompt } from "./components/PermissionPrompt";
+import type { Capability } from "./config/spotify";
+import { isDemoMode } from "./services/demoMode";
+import { hasDroppedOut } from "./utils/topTrackComparison";
+import type { NowPlaying, Song, TrackSource } from "./types/music";
+
+const SOURCE_CAPABILITIES: Record<TrackSource, Capability> = {
+  top: "topTracks",
+  liked: "likedSongs",
+  history: "history",
+};
 
 function App() {
   const {
     isAuthenticated,
     user,
     filteredSongs,
-    energyFilter,
+    moodFilter,
+    moodConfig,
+    genreFilter,
+    availableGenres,
     searchQuery,
+    source,
+    timeRange,
+    compareRange,
+    savedTrackIds,
+    history,
+    searchTotal,
+    nextOffset,
     isInitialLoading,
     isLoadingSongs,
+    isLoadingMore,
     error,
     searchTracks,
+    loadMoreTracks,
     clearSearch,
-    setEnergyFilter,
+    setSource,
+    setTrackSaved,
+    toggleSavedTrack,
+    setMoodFilter,
+    setGenreFilter,
+    saveMoodConfig,
+    resetMoodConfig,
+    setTimeRange,
+    setCompareRange,
     shuffleSongs,
     handleAuthComplete,
     handleLogout,
+    accounts,
+    switchAccount,
+    removeAccount,
+    addAccount,
     clearError,
   } = useAppState();
 
+  const { can, requestAccess, takeResumeAction } = useCapabilities();
+  // Feature the user reached for without the scopes it needs
+  const [consentRequest, setConsentRequest] = useState<{
+    capability: Capability;
+    action?: ResumeAction;
+  } | null>(null);
+
   const {
     playerState,
+    backendKind,
+    deviceId,
+    activeDeviceId,
+    status: playerStatus,
+    statusDetail: playerStatusDetail,
     isReady: isPlayerReady,
     error: playerError,
+    volume,
     playTrack,
+    playSongs,
+    enqueueSong,
     pauseTrack,
     resumeTrack,
     seekTo,
     setVolume,
-    PlayerComponent,
-  } = useSpotifyPlayer();
+    setOutputVolume,
+    toggleMute,
+    toggleShuffle,
+    cycleRepeatMode,
+    nextTrack,
+    previousTrack,
+    getCurrentState,
+    transferPlayback,
+    retryConnection,
+    clearError: clearPlayerError,
+  } = useSpotifyPlayer(user, can("playback"));
+
+  useListeningLog(playerState);
+
+  const { positionMs, markSeek } = usePlaybackClock({
+    position: playerState?.position ?? 0,
+    duration: playerState?.duration ?? 0,
+    isPlaying: playerState ? !playerState.paused : false,
+    getCurrentState,
+  });
+
+  const {
+    currentIndex: queueIndex,
+    upcoming,
+    playFromList,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    jumpTo,
+  } = usePlaybackQueue({
+    currentTrackId: playerState?.track_window.current_track.id ?? null,
+    currentPosition: positionMs,
+    isPaused: playerState?.paused ?? true,
+    playSongs,
+    enqueueSong,
+    skipTrack: nextTrack,
+  });
+
+  const [showMoodSettings, setShowMoodSettings] = useState(false);
+  const [showSavePlaylist, setShowSavePlaylist] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Card clicked before the player was ready; it starts once the player is
+  const [pendingSong, setPendingSong] = useState<Song | null>(null);
+
+  // Pick up what the user was doing before they left to grant more access
+  useEffect(() => {
+    if (!isAuthenticated || !user || window.location.pathname.includes("/callback")) return;
+
+    const action = takeResumeAction();
+    switch (action?.type) {
+      case "set-source":
+        setSource(action.source);
+        break;
+      case "save-playlist":
+        setShowSavePlaylist(true);
+        break;
+      case "save-track":
+        setTrackSaved(action.song, true);
+        break;
+    }
+  }, [isAuthenticated, user, takeResumeAction, setSource, setTrackSaved]);
+
+  const handleSourceChange = (nextSource: TrackSource) => {
+    const capability = SOURCE_CAPABILITIES[nextSource];
+    if (can(capability)) {
+      setSource(nextSource);
+    } else {
+      setConsentRequest({ capability, action: { type: "set-source", source: nextSource } });
+    }
+  };
+
+  const handleOpenSavePlaylist = () => {
+    if (can("savePlaylist")) {
+      setShowSavePlaylist(true);
+    } else {
+      setConsentRequest({ capability: "savePlaylist", action: { type: "save-playlist" } });
+    }
+  };
+
+  const handleToggleSave = (song: Song) => {
+    if (can("editLibrary")) {
+      toggleSavedTrack(song);
+    } else {
+      setConsentRequest({ capability: "editLibrary", action: { type: "save-track", song } });
+    }
+  };
+
+  // Tracks that dropped out of a compared ranking stay on the board, but aren't
+  // played through or saved as if they were still top tracks
+  const currentSongs = useMemo(
+    () => filteredSongs.filter((song) => !hasDroppedOut(song)),
+    [filteredSongs]
+  );
+
+  // Play the visible board as a queue starting at this card
+  const startSong = useCallback((song: Song) => {
+    const index = currentSongs.findIndex((item) => item.id === song.id);
+    return index === -1 ? playTrack(song) : playFromList(currentSongs, index);
+  }, [currentSongs, playTrack, playFromList]);
+
+  useEffect(() => {
+    if (!isPlayerReady || !pendingSong) return;
+    setPendingSong(null);
+    startSong(pendingSong);
+  }, [isPlayerReady, pendingSong, startSong]);
+
+  const handleSongPlay = (song: Song) => {
+    if (!isPlayerReady) {
+      setPendingSong(song);
+      return;
+    }
+
+    const isCurrentSong = playerState?.track_window.current_track.id === song.id;
+    const isPlaying = playerState && !playerState.paused;
+
+    if (isCurrentSong && isPlaying) {
+      pauseTrack();
+    } else if (isCurrentSong && !isPlaying) {
+      resumeTrack();
+    } else {
+      startSong(song);
+    }
+  };
+
+  // Resumes what's loaded, or starts the board from the top
+  const handlePlay = () => {
+    if (playerState) {
+      resumeTrack();
+    } else if (currentSongs.length > 0) {
+      handleSongPlay(currentSongs[0]);
+    }
+  };
+
+  const handleTogglePlay = () => {
+    if (playerState && !playerState.paused) {
+      pauseTrack();
+    } else {
+      handlePlay();
+    }
+  };
+
+  const handleSeek = (targetMs: number) => {
+    if (!playerState) return;
+    const clamped = Math.min(Math.max(0, targetMs), playerState.duration);
+    markSeek(clamped);
+    seekTo(clamped);
+  };
+
+  useMediaSession({
+    track: playerState?.track_window.current_track ?? null,
+    isPlaying: playerState ? !playerState.paused : false,
+    positionMs,
+    durationMs: playerState?.duration ?? 0,
+    onPlay: handlePlay,
+    onPause: pauseTrack,
+    onSeek: handleSeek,
+    onNext: nextTrack,
+    onPrevious: previousTrack,
+  });
+
+  const sleepTimer = useSleepTimer({
+    trackId: playerState?.track_window.current_track.id ?? null,
+    positionMs,
+    durationMs: playerState?.duration ?? 0,
+    volume,
+    setOutputVolume,
+    pause: () => {
+      if (playerState && !playerState.paused) pauseTrack();
+    },
+  });
+
+  useKeyboardShortcuts({
+    enabled: isAuthenticated,
+    positionMs,
+    volume,
+    onTogglePlay: handleTogglePlay,
+    onSeek: handleSeek,
+    onVolumeChange: setVolume,
+    onFocusSearch: () => searchInputRef.current?.focus(),
+    onToggleHelp: () => setShowShortcuts((prev) => !prev),
+  });
 
   // Check if we're on the callback route
   const isCallbackRoute = window.location.pathname.includes("/callback");
@@ -62,25 +307,7 @@ function App() {
     return <LoginScreen />;
   }
 
-  const handleSongPlay = (song: any) => {
-    if (!isPlayerReady) {
-      alert("Spotify player is not ready yet. Please wait a moment and try again.");
-      return;
-    }
-
-    const isCurrentSong = playerState?.track_window.current_track.id === song.id;
-    const isPlaying = playerState && !playerState.paused;
-
-    if (isCurrentSong && isPlaying) {
-      pauseTrack();
-    } else if (isCurrentSong && !isPlaying) {
-      resumeTrack();
-    } else {
-      playTrack(song);
-    }
-  };
-
-  const currentSong = playerState?.track_window.current_track ? {
+  const currentSong: NowPlaying | null = playerState?.track_window.current_track ? {
     id: playerState.track_window.current_track.id,
     title: playerState.track_window.current_track.name,
     artist: playerState.track_window.current_track.artists.map(a => a.name).join(", "),
@@ -90,29 +317,82 @@ function App() {
     uri: playerState.track_window.current_track.uri,
   } : null;
 
+  // Search results replace the timeline just as they replace the board
+  const isHistoryView = source === "history" && !searchQuery;
+  const visibleSongIds = new Set(filteredSongs.map((song) => song.id));
+  const visibleHistory = history.filter((entry) => visibleSongIds.has(entry.song.id));
+
   const playbackStateForUI = {
     isPlaying: playerState ? !playerState.paused : false,
     currentSong,
-    currentTime: Math.floor((playerState?.position || 0) / 1000),
-    volume: 0.7, // We'll manage this separately
+    currentTime: positionMs / 1000,
+    volume,
+    shuffle: playerState?.shuffle ?? false,
+    repeatMode: playerState?.repeat_mode ?? "off",
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900">
-      {/* Spotify Player Component */}
-      <PlayerComponent />
-
       <Header
         user={user || undefined}
         onShuffle={shuffleSongs}
-        onFilterChange={setEnergyFilter}
-        currentFilter={energyFilter}
+        onSavePlaylist={handleOpenSavePlaylist}
+        onFilterChange={setMoodFilter}
+        currentFilter={moodFilter}
+        onOpenMoodSettings={() => setShowMoodSettings(true)}
+        availableGenres={availableGenres}
+        genreFilter={genreFilter}
+        onGenreFilterChange={setGenreFilter}
+        source={source}
+        onSourceChange={handleSourceChange}
+        lockedSources={(Object.keys(SOURCE_CAPABILITIES) as TrackSource[]).filter(
+          (option) => !can(SOURCE_CAPABILITIES[option])
+        )}
+        isSavePlaylistLocked={!can("savePlaylist")}
+        timeRange={timeRange}
+        onTimeRangeChange={setTimeRange}
+        compareRange={compareRange}
+        onCompareRangeChange={setCompareRange}
+        onOpenShortcuts={() => setShowShortcuts(true)}
+        accounts={accounts}
+        onSwitchAccount={switchAccount}
+        onRemoveAccount={removeAccount}
+        onAddAccount={addAccount}
+        isDemo={isDemoMode()}
         onLogout={handleLogout}
       />
 
+      {showMoodSettings && (
+        <MoodSettingsPanel
+          config={moodConfig}
+          onSave={saveMoodConfig}
+          onReset={resetMoodConfig}
+          onClose={() => setShowMoodSettings(false)}
+        />
+      )}
+
+      {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+      {consentRequest && (
+        <PermissionPrompt
+          capability={consentRequest.capability}
+          onContinue={() => requestAccess(consentRequest.capability, consentRequest.action)}
+          onClose={() => setConsentRequest(null)}
+        />
+      )}
+
+      {showSavePlaylist && user && (
+        <SavePlaylistDialog
+          songs={currentSongs}
+          userId={user.id}
+          onClose={() => setShowSavePlaylist(false)}
+        />
+      )}
+
       {/* Search Bar */}
       <div className="container mx-auto px-4 py-6">
         <SearchBar
+          ref={searchInputRef}
           onSearch={searchTracks}
           onClear={clearSearch}
           isLoading={isLoadingSongs}
@@ -123,7 +403,7 @@ function App() {
             <p className="text-gray-400 text-sm">
               {isLoadingSongs
                 ? "Searching..."
-                : `Showing results for "${searchQuery}"`}
+                : `Showing results for "${searchQuery}" (${searchTotal.toLocaleString()} tracks)`}
             </p>
           </div>
         )}
@@ -134,28 +414,30 @@ function App() {
         <div className="container mx-auto px-4 py-2">
           <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4 text-center">
             <p className="text-red-400">{error || playerError}</p>
-            {error && (
-              <button
-                onClick={clearError}
-                className="mt-2 text-sm text-red-300 hover:text-red-200 underline"
-              >
-                Dismiss
-              </button>
-            )}
+            <button
+              onClick={error ? clearError : clearPlayerError}
+              className="mt-2 text-sm text-red-300 hover:text-red-200 underline"
+            >
+              Dismiss
+            </button>
           </div>
         </div>
       )}
 
       {/* Player Status */}
-      {!isPlayerReady && isAuthenticated && (
-        <div className="container mx-auto px-4 py-2">
-          <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-4 text-center">
-            <p className="text-yellow-400 text-sm">
-              Setting up Spotify player... You'll be able to play full tracks once it's ready.
-            </p>
-          </div>
-        </div>
-      )}
+      <PlayerStatusBanner
+        status={playerStatus}
+        detail={playerStatusDetail}
+        backendKind={backendKind}
+        pendingTitle={pendingSong?.title}
+        onRetry={retryConnection}
+        onGrantPlaybackAccess={
+          // Only worth asking when the account could stream full tracks
+          !can("playback") && user?.product !== "free" && user?.product !== "open"
+            ? () => setConsentRequest({ capability: "playback" })
+            : undefined
+        }
+      />
 
       {/* Loading State */}
       {isLoadingSongs && (
@@ -181,24 +463,68 @@ function App() {
         </div>
       )}
 
+      {/* History Timeline */}
+      {!isLoadingSongs && isHistoryView && filteredSongs.length > 0 && (
+        <main className="pb-24">
+          <HistoryTimeline
+            entries={visibleHistory}
+            currentSong={currentSong}
+            isPlaying={playbackStateForUI.isPlaying}
+            onSongPlay={handleSongPlay}
+          />
+        </main>
+      )}
+
       {/* Music Grid */}
-      {!isLoadingSongs && filteredSongs.length > 0 && (
+      {!isLoadingSongs && !isHistoryView && filteredSongs.length > 0 && (
         <main className="pb-24">
           <MasonryGrid
             songs={filteredSongs}
             currentSong={currentSong}
             isPlaying={playbackStateForUI.isPlaying}
             onSongPlay={handleSongPlay}
+            hasMore={nextOffset !== null}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMoreTracks}
+            savedTrackIds={savedTrackIds}
+            onToggleSave={handleToggleSave}
+            isSaveLocked={!can("editLibrary")}
+            onPlayNext={isPlayerReady ? playNext : undefined}
+            onAddToQueue={isPlayerReady ? addToQueue : undefined}
           />
         </main>
       )}
 
+      {showQueue && currentSong && (
+        <QueueDrawer
+          upcoming={upcoming}
+          startIndex={queueIndex + 1}
+          onJumpTo={jumpTo}
+          onRemove={removeFromQueue}
+          onClose={() => setShowQueue(false)}
+        />
+      )}
+
       <AudioControlBar
         playbackState={playbackStateForUI}
         onPlay={handleSongPlay}
         onPause={pauseTrack}
+        onNext={nextTrack}
+        onPrevious={previousTrack}
+        onToggleShuffle={toggleShuffle}
+        onCycleRepeat={cycleRepeatMode}
+        isQueueOpen={showQueue}
+        onToggleQueue={() => setShowQueue(!showQueue)}
+        localDeviceId={deviceId}
+        activeDeviceId={activeDeviceId}
+        onSelectDevice={backendKind === "sdk" ? transferPlayback : undefined}
         onVolumeChange={setVolume}
-        onSeek={(time) => seekTo(time * 1000)} // Convert to milliseconds
+        onToggleMute={toggleMute}
+        sleepTimer={sleepTimer.timer}
+        sleepRemainingMs={sleepTimer.remainingMs}
+        onStartSleepTimer={sleepTimer.startTimer}
+        onCancelSleepTimer={sleepTimer.cancelTimer}
+        onSeek={(time) => handleSeek(time * 1000)}
       />
     </div>
   );
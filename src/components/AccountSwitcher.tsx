@@ -0,0 +1,123 @@
+/**
+ * Account Switcher
+ *
+ * Header menu listing the Spotify accounts signed in on this browser, for
+ * switching between them, adding another or removing one.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, User, UserPlus, X } from "lucide-react";
+import type { AccountProfile } from "../services/spotifyAuth";
+import type { User as UserType } from "../types/music";
+
+interface AccountSwitcherProps {
+  user: UserType;
+  accounts: AccountProfile[];
+  onSwitch: (accountId: string) => void;
+  onRemove: (accountId: string) => void;
+  onAdd: () => void;
+}
+
+const Avatar: React.FC<{ image?: string; name: string }> = ({ image, name }) =>
+  image ? (
+    <img src={image} alt={name} className="w-6 h-6 rounded-full" />
+  ) : (
+    <User className="w-5 h-5 text-gray-400" />
+  );
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  user,
+  accounts,
+  onSwitch,
+  onRemove,
+  onAdd,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleSwitch = (accountId: string) => {
+    setIsOpen(false);
+    if (accountId !== user.id) {
+      onSwitch(accountId);
+    }
+  };
+
+  const handleRemove = (account: AccountProfile) => {
+    if (window.confirm(`Remove ${account.displayName} from this browser? Other accounts stay signed in.`)) {
+      setIsOpen(false);
+      onRemove(account.id);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-gray-800/50 hover:bg-gray-800 rounded-full px-3 py-2 transition-colors"
+        title="Switch account"
+      >
+        <Avatar image={user.profileImage} name={user.displayName} />
+        <span className="text-sm text-white font-medium">{user.displayName}</span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-72 bg-card-bg border border-gray-700 rounded-2xl shadow-2xl z-20 animate-scale-in overflow-hidden">
+          <h3 className="px-4 py-3 border-b border-gray-700 text-white font-semibold text-sm">
+            Accounts
+          </h3>
+          <ul className="py-2">
+            {accounts.map((account) => {
+              const isActive = account.id === user.id;
+              return (
+                <li key={account.id} className="group flex items-center hover:bg-gray-800">
+                  <button
+                    onClick={() => handleSwitch(account.id)}
+                    className="flex-1 min-w-0 flex items-center gap-3 px-4 py-2 text-left"
+                  >
+                    <Avatar image={account.profileImage} name={account.displayName} />
+                    <span
+                      className={`flex-1 truncate text-sm ${isActive ? "text-spotify-green" : "text-white"}`}
+                    >
+                      {account.displayName}
+                    </span>
+                    {isActive && <Check className="w-4 h-4 text-spotify-green" />}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(account)}
+                    className="mr-2 p-1 text-gray-500 hover:text-red-400 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={`Remove ${account.displayName}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            onClick={onAdd}
+            className="w-full flex items-center gap-3 px-4 py-3 border-t border-gray-700 text-sm text-gray-300 hover:text-white hover:bg-gray-800"
+            title="Spotify logs in with the account open in this browser; use “Not you?” on its page to pick another"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add another account
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
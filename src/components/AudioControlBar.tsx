@@ -1,12 +1,37 @@
-import React from "react";
-import { Play, Pause, Volume2, VolumeX } from "lucide-react";
-import type { PlaybackState } from "../types/music";
+import React, { useState } from "react";
+import { Play, Pause, Volume2, VolumeX, SkipBack, SkipForward, ListMusic, Shuffle, Repeat, Repeat1 } from "lucide-react";
+import { DevicePicker } from "./DevicePicker";
+import { SleepTimerMenu } from "./SleepTimerMenu";
+import type { SleepTimer } from "../hooks/useSleepTimer";
+import type { PlaybackState, RepeatMode } from "../types/music";
+
+// Describes what clicking the repeat button will do next
+const REPEAT_TITLES: Record<RepeatMode, string> = {
+  off: "Enable repeat",
+  context: "Enable repeat one",
+  track: "Disable repeat",
+};
 
 interface AudioControlBarProps {
   playbackState: PlaybackState;
   onPlay: (song: any) => void;
   onPause: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  isQueueOpen: boolean;
+  onToggleQueue: () => void;
+  localDeviceId: string;
+  activeDeviceId: string;
+  // Omitted when the backend can't hand playback to Spotify Connect devices
+  onSelectDevice?: (deviceId: string) => void;
   onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  sleepTimer: SleepTimer | null;
+  sleepRemainingMs: number | null;
+  onStartSleepTimer: (minutes: number | "end-of-track") => void;
+  onCancelSleepTimer: () => void;
   onSeek: (time: number) => void;
 }
 
@@ -14,10 +39,27 @@ export const AudioControlBar: React.FC<AudioControlBarProps> = ({
   playbackState,
   onPlay,
   onPause,
+  onNext,
+  onPrevious,
+  onToggleShuffle,
+  onCycleRepeat,
+  isQueueOpen,
+  onToggleQueue,
+  localDeviceId,
+  activeDeviceId,
+  onSelectDevice,
   onVolumeChange,
+  onToggleMute,
+  sleepTimer,
+  sleepRemainingMs,
+  onStartSleepTimer,
+  onCancelSleepTimer,
   onSeek,
 }) => {
-  const { isPlaying, currentSong, currentTime, volume } = playbackState;
+  const { isPlaying, currentSong, currentTime, volume, shuffle, repeatMode } = playbackState;
+  // Time under the pointer while scrubbing, and the hover tooltip position
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const [hoverPreview, setHoverPreview] = useState<{ time: number; percent: number } | null>(null);
 
   if (!currentSong) {
     return null;
@@ -29,14 +71,35 @@ export const AudioControlBar: React.FC<AudioControlBarProps> = ({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const progressPercentage = (currentTime / currentSong.duration) * 100;
+  const displayTime = dragTime ?? currentTime;
+  const progressPercentage = currentSong.duration > 0
+    ? Math.min(100, (displayTime / currentSong.duration) * 100)
+    : 0;
 
-  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const getPointerRatio = (e: React.PointerEvent<HTMLDivElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const width = rect.width;
-    const newTime = (clickX / width) * currentSong.duration;
-    onSeek(newTime);
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Keep receiving moves while dragging outside the bar
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(getPointerRatio(e) * currentSong.duration);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const ratio = getPointerRatio(e);
+    const time = ratio * currentSong.duration;
+    setHoverPreview({ time, percent: ratio * 100 });
+    if (dragTime !== null) {
+      setDragTime(time);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragTime === null) return;
+    onSeek(getPointerRatio(e) * currentSong.duration);
+    setDragTime(null);
   };
 
   return (
@@ -62,6 +125,23 @@ export const AudioControlBar: React.FC<AudioControlBarProps> = ({
         {/* Playback Controls */}
         <div className="flex flex-col items-center gap-2 flex-2">
           <div className="flex items-center gap-4">
+            <button
+              onClick={onToggleShuffle}
+              className={`transition-colors p-2 rounded-full hover:bg-gray-800 ${
+                shuffle ? "text-spotify-green" : "text-gray-400 hover:text-white"
+              }`}
+              title={shuffle ? "Disable shuffle" : "Enable shuffle"}
+              aria-pressed={shuffle}
+            >
+              <Shuffle className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onPrevious}
+              className="text-gray-400 hover:text-white transition-colors p-2 rounded-full hover:bg-gray-800"
+              title="Previous"
+            >
+              <SkipBack className="w-5 h-5" />
+            </button>
             <button
               onClick={isPlaying ? onPause : () => onPlay(currentSong)}
               className="bg-spotify-green hover:bg-green-400 rounded-full p-3 transition-all duration-200 transform hover:scale-110 shadow-lg hover:shadow-spotify-green/25"
@@ -72,23 +152,68 @@ export const AudioControlBar: React.FC<AudioControlBarProps> = ({
                 <Play className="w-6 h-6 text-black ml-0.5" />
               )}
             </button>
+            <button
+              onClick={onNext}
+              className="text-gray-400 hover:text-white transition-colors p-2 rounded-full hover:bg-gray-800"
+              title="Next"
+            >
+              <SkipForward className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onCycleRepeat}
+              className={`transition-colors p-2 rounded-full hover:bg-gray-800 ${
+                repeatMode !== "off" ? "text-spotify-green" : "text-gray-400 hover:text-white"
+              }`}
+              title={REPEAT_TITLES[repeatMode]}
+            >
+              {repeatMode === "track" ? (
+                <Repeat1 className="w-5 h-5" />
+              ) : (
+                <Repeat className="w-5 h-5" />
+              )}
+            </button>
           </div>
 
           {/* Progress Bar */}
           <div className="flex items-center gap-2 w-full max-w-md">
             <span className="text-xs text-gray-400 min-w-[35px] font-mono">
-              {formatTime(currentTime)}
+              {formatTime(displayTime)}
             </span>
             <div
-              className="flex-1 h-1.5 bg-gray-600 rounded-full cursor-pointer group"
-              onClick={handleProgressClick}
+              className="relative flex-1 h-1.5 bg-gray-600 rounded-full cursor-pointer group touch-none"
+              role="slider"
+              aria-label="Seek"
+              aria-valuemin={0}
+              aria-valuemax={currentSong.duration}
+              aria-valuenow={Math.floor(displayTime)}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDragTime(null)}
+              onPointerLeave={() => setHoverPreview(null)}
             >
               <div
-                className="h-full bg-spotify-green rounded-full relative group-hover:bg-green-400 transition-all duration-200"
+                className="h-full bg-spotify-green rounded-full relative group-hover:bg-green-400 transition-colors duration-200"
                 style={{ width: `${progressPercentage}%` }}
               >
-                <div className="absolute right-0 top-1/2 transform translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-white rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 shadow-lg" />
+                <div
+                  className={`absolute right-0 top-1/2 transform translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-white rounded-full transition-opacity duration-200 shadow-lg ${
+                    dragTime !== null ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                  }`}
+                />
               </div>
+
+              {/* Hover Time Tooltip */}
+              {(hoverPreview || dragTime !== null) && (
+                <div
+                  className="absolute bottom-4 -translate-x-1/2 bg-gray-800 text-white text-xs font-mono px-2 py-1 rounded shadow-lg pointer-events-none"
+                  style={{
+                    left: `${dragTime !== null ? progressPercentage : hoverPreview?.percent}%`,
+                  }}
+                >
+                  {formatTime(dragTime ?? hoverPreview?.time ?? 0)}
+                </div>
+              )}
             </div>
             <span className="text-xs text-gray-400 min-w-[35px] font-mono">
               {formatTime(currentSong.duration)}
@@ -98,9 +223,32 @@ export const AudioControlBar: React.FC<AudioControlBarProps> = ({
 
         {/* Volume Control */}
         <div className="flex items-center gap-2 min-w-0 flex-1 justify-end">
+          {onSelectDevice && (
+            <DevicePicker
+              localDeviceId={localDeviceId}
+              activeDeviceId={activeDeviceId}
+              onSelectDevice={onSelectDevice}
+            />
+          )}
+          <SleepTimerMenu
+            timer={sleepTimer}
+            remainingMs={sleepRemainingMs}
+            onStart={onStartSleepTimer}
+            onCancel={onCancelSleepTimer}
+          />
+          <button
+            onClick={onToggleQueue}
+            className={`transition-colors p-2 rounded-full hover:bg-gray-800 ${
+              isQueueOpen ? "text-spotify-green" : "text-gray-400 hover:text-white"
+            }`}
+            title="Queue"
+          >
+            <ListMusic className="w-5 h-5" />
+          </button>
           <button
-            onClick={() => onVolumeChange(volume > 0 ? 0 : 0.7)}
+            onClick={onToggleMute}
             className="text-gray-400 hover:text-white transition-colors p-2 rounded-full hover:bg-gray-800"
+            title={volume > 0 ? "Mute" : "Unmute"}
           >
             {volume > 0 ? (
               <Volume2 className="w-5 h-5" />
@@ -6,7 +6,7 @@
  */
 
 import React, { useEffect, useState } from "react";
-import { spotifyAuth } from "../services/spotifyAuth";
+import { spotifyAuth, AuthCallbackError } from "../services/spotifyAuth";
 import { Loader2, CheckCircle, XCircle } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
@@ -14,6 +14,45 @@ interface AuthCallbackProps {
   onAuthComplete: (success: boolean) => void;
 }
 
+// What each `error` value Spotify can redirect back with means for the user
+const SPOTIFY_ERROR_MESSAGES: Record<string, string> = {
+  access_denied:
+    "You didn't allow Music Gallery to access your Spotify account. It needs that access to show your music, so log in again whenever you're ready.",
+  invalid_scope: "Spotify didn't recognize the permissions Music Gallery asked for.",
+  invalid_request: "Spotify rejected the login request. Check the app's client ID and redirect URI.",
+  unauthorized_client: "This Spotify app isn't allowed to log users in. Check its settings in the Spotify Developer Dashboard.",
+  unsupported_response_type: "Spotify rejected the login request. Check the app's client ID and redirect URI.",
+  server_error: "Spotify's login service ran into a problem. Please try again.",
+  temporarily_unavailable: "Spotify's login service is busy right now. Please try again in a few minutes.",
+};
+
+const describeCallbackError = (error: unknown): string => {
+  if (!(error instanceof AuthCallbackError)) {
+    return "Something went wrong while logging in. Please try again.";
+  }
+
+  switch (error.code) {
+    case "access_denied":
+    case "authorize_error":
+      return (
+        (error.detail && SPOTIFY_ERROR_MESSAGES[error.detail]) ||
+        `Spotify couldn't complete the login (${error.detail}). Please try again.`
+      );
+    case "no_pending_login":
+      return "This login response doesn't belong to a login started in this tab. It may have expired or been opened in another tab. Please log in again.";
+    case "replayed":
+      return "This login link has already been used. Please log in again.";
+    case "state_mismatch":
+      return "This login response didn't match the login you started, so it was ignored to keep your account safe. Please log in again.";
+    case "missing_code":
+      return "Spotify didn't send back an authorization code. Please try again.";
+    case "exchange_failed":
+      return error.detail === "invalid_grant"
+        ? "The login expired before it could be completed. Please try again."
+        : "Music Gallery couldn't finish logging in with Spotify. Check your connection and try again.";
+  }
+};
+
 export const AuthCallback: React.FC<AuthCallbackProps> = ({
   onAuthComplete,
 }) => {
@@ -24,49 +63,65 @@ export const AuthCallback: React.FC<AuthCallbackProps> = ({
   const navigate = useNavigate();
 
   useEffect(() => {
+    // Only the effect run that is still mounted may act on the result
+    let cancelled = false;
+    let redirectTimer: ReturnType<typeof setTimeout> | undefined;
+
     const handleCallback = async () => {
       try {
-        const urlParams = new URLSearchParams(window.location.search);
-        const code = urlParams.get("code");
-        const error = urlParams.get("error");
+        const returnPath = await spotifyAuth.handleCallback(
+          new URLSearchParams(window.location.search)
+        );
+        if (cancelled) return;
 
-        if (error) {
-          throw new Error(`Authentication error: ${error}`);
-        }
+        setStatus("success");
+        setMessage("Authentication successful! Redirecting...");
 
-        if (!code) {
-          throw new Error("No authorization code received");
+        // Redirect after a short delay, replacing the callback URL so going back can't replay it
+        redirectTimer = setTimeout(() => {
+          onAuthComplete(true);
+          navigate(returnPath, { replace: true });
+        }, 2000);
+      } catch (error) {
+        if (cancelled) return;
+
+        // Reloading the callback page after a successful login isn't worth an error
+        if (
+          error instanceof AuthCallbackError &&
+          error.code === "replayed" &&
+          spotifyAuth.isAuthenticated()
+        ) {
+          onAuthComplete(true);
+          navigate("/", { replace: true });
+          return;
         }
 
-        const success = await spotifyAuth.handleCallback(code);
-
-        if (success) {
-          setStatus("success");
-          setMessage("Authentication successful! Redirecting...");
-
-          // Redirect after a short delay
-          setTimeout(() => {
-            onAuthComplete(true);
-            navigate("/");
-          }, 2000);
-        } else {
-          throw new Error("Failed to exchange authorization code for tokens");
-        }
-      } catch (error) {
         console.error("Authentication callback error:", error);
+        // Declining extra access leaves the existing session in place
+        const keptSession = spotifyAuth.isAuthenticated();
         setStatus("error");
         setMessage(
-          error instanceof Error ? error.message : "Authentication failed"
+          keptSession && error instanceof AuthCallbackError && error.code === "access_denied"
+            ? "No access was added. You can keep using Music Gallery with the access you already gave it."
+            : describeCallbackError(error)
         );
 
-        setTimeout(() => {
-          onAuthComplete(false);
+        redirectTimer = setTimeout(() => {
+          onAuthComplete(keptSession);
+          if (keptSession) {
+            navigate("/", { replace: true });
+          }
         }, 3000);
       }
     };
 
     handleCallback();
-  }, [onAuthComplete]);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(redirectTimer);
+    };
+  }, [onAuthComplete, navigate]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
@@ -94,7 +149,7 @@ export const AuthCallback: React.FC<AuthCallbackProps> = ({
         {status === "error" && (
           <button
             className="mt-4 px-4 py-2 bg-spotify-green text-white rounded"
-            onClick={() => spotifyAuth.initiateAuth()}
+            onClick={() => spotifyAuth.initiateAuth("/")}
           >
             Retry Login
           </button>
@@ -0,0 +1,146 @@
+/**
+ * Device Picker Component
+ *
+ * Lists the user's Spotify Connect devices and transfers playback to the
+ * chosen one.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { MonitorSpeaker, Laptop, Smartphone, Speaker, Check, RefreshCw } from "lucide-react";
+import { spotifyApi } from "../services/spotifyApi";
+import type { SpotifyDevice } from "../types/music";
+
+interface DevicePickerProps {
+  localDeviceId: string;
+  activeDeviceId: string;
+  onSelectDevice: (deviceId: string) => void;
+}
+
+const getDeviceIcon = (type: string) => {
+  switch (type.toLowerCase()) {
+    case "computer":
+      return Laptop;
+    case "smartphone":
+    case "tablet":
+      return Smartphone;
+    default:
+      return Speaker;
+  }
+};
+
+export const DevicePicker: React.FC<DevicePickerProps> = ({
+  localDeviceId,
+  activeDeviceId,
+  onSelectDevice,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const loadDevices = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDevices(await spotifyApi.getDevices());
+    } catch {
+      setError("Couldn't load your devices");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      loadDevices();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (deviceId: string) => {
+    if (deviceId !== activeDeviceId) {
+      onSelectDevice(deviceId);
+    }
+    setIsOpen(false);
+  };
+
+  const isRemote = Boolean(activeDeviceId) && activeDeviceId !== localDeviceId;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        className={`transition-colors p-2 rounded-full hover:bg-gray-800 ${
+          isRemote ? "text-spotify-green" : "text-gray-400 hover:text-white"
+        }`}
+        title="Connect to a device"
+      >
+        <MonitorSpeaker className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 right-0 w-72 bg-card-bg border border-gray-700 rounded-2xl shadow-2xl z-20 animate-scale-in overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <h3 className="text-white font-semibold text-sm">Connect to a device</h3>
+            <button
+              onClick={loadDevices}
+              className="p-1 text-gray-400 hover:text-white rounded-full transition-colors"
+              title="Refresh devices"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            </button>
+          </div>
+
+          {error && <p className="px-4 py-3 text-sm text-red-400">{error}</p>}
+
+          {!error && devices.length === 0 && !isLoading && (
+            <p className="px-4 py-3 text-sm text-gray-400">
+              No devices found. Open Spotify on another device to see it here.
+            </p>
+          )}
+
+          <ul className="py-2">
+            {devices.map((device) => {
+              const Icon = getDeviceIcon(device.type);
+              const isActive = device.id === activeDeviceId;
+              return (
+                <li key={device.id}>
+                  <button
+                    onClick={() => handleSelect(device.id)}
+                    className={`w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-gray-800 ${
+                      isActive ? "text-spotify-green" : "text-white"
+                    }`}
+                  >
+                    <Icon className="w-5 h-5 flex-shrink-0" />
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm truncate">{device.name}</span>
+                      {device.id === localDeviceId && (
+                        <span className="block text-xs text-gray-400">This browser</span>
+                      )}
+                    </span>
+                    {isActive && <Check className="w-4 h-4" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
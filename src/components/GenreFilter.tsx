@@ -0,0 +1,90 @@
+/**
+ * Genre Filter Component
+ *
+ * A multi-select dropdown listing the genres found in the loaded songs.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Tags, Check } from "lucide-react";
+
+interface GenreFilterProps {
+  genres: string[];
+  selected: string[];
+  onChange: (genres: string[]) => void;
+}
+
+export const GenreFilter: React.FC<GenreFilterProps> = ({
+  genres,
+  selected,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  // Keep selected genres visible even if the current results no longer contain them
+  const options = [...selected.filter((genre) => !genres.includes(genre)), ...genres];
+
+  const toggleGenre = (genre: string) => {
+    onChange(
+      selected.includes(genre)
+        ? selected.filter((g) => g !== genre)
+        : [...selected, genre]
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-gray-800/80 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm hover:border-spotify-green transition-all duration-200"
+      >
+        <Tags className="w-4 h-4 text-gray-400" />
+        {selected.length === 0 ? "All Genres" : `${selected.length} Genre${selected.length > 1 ? "s" : ""}`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 max-h-80 overflow-y-auto bg-card-bg border border-gray-700 rounded-lg shadow-2xl z-20 animate-scale-in">
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([])}
+              className="w-full text-left px-4 py-2 text-sm text-spotify-green hover:bg-gray-800 border-b border-gray-700"
+            >
+              Clear selection
+            </button>
+          )}
+
+          {options.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">
+              No genre information for these tracks
+            </p>
+          ) : (
+            options.map((genre) => (
+              <button
+                key={genre}
+                onClick={() => toggleGenre(genre)}
+                className="w-full flex items-center justify-between px-4 py-2 text-sm text-white hover:bg-gray-800 capitalize"
+              >
+                {genre}
+                {selected.includes(genre) && <Check className="w-4 h-4 text-spotify-green" />}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
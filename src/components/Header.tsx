@@ -1,24 +1,83 @@
 import React from 'react';
-import { Music, Shuffle, Filter, LogOut, User } from 'lucide-react';
-import type { User as UserType } from '../types/music';
+import { Music, Dices, Filter, LogOut, CalendarClock, GitCompareArrows, SlidersHorizontal, ListPlus, Library, Keyboard } from 'lucide-react';
+import { MOOD_LABELS } from '../services/moodClassifier';
+import { GenreFilter } from './GenreFilter';
+import { AccountSwitcher } from './AccountSwitcher';
+import type { AccountProfile } from '../services/spotifyAuth';
+import type { Mood, TimeRange, TrackSource, User as UserType } from '../types/music';
+
+// "unknown" picks out songs Spotify had no audio features for
+const MOOD_FILTERS: Mood[] = ['euphoric', 'energetic', 'balanced', 'chill', 'melancholic', 'acoustic', 'unknown'];
+
+const SOURCE_LABELS: Record<TrackSource, string> = {
+  top: 'Top Tracks',
+  liked: 'Liked Songs',
+  history: 'History',
+};
+
+const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  short_term: 'Last 4 Weeks',
+  medium_term: 'Last 6 Months',
+  long_term: 'All Time',
+};
 
 interface HeaderProps {
   user?: UserType;
   onShuffle: () => void;
+  onSavePlaylist: () => void;
   onFilterChange: (filter: string) => void;
   currentFilter: string;
+  onOpenMoodSettings: () => void;
+  availableGenres: string[];
+  genreFilter: string[];
+  onGenreFilterChange: (genres: string[]) => void;
+  source: TrackSource;
+  onSourceChange: (source: TrackSource) => void;
+  // Sources the granted scopes don't cover; picking one asks for access
+  lockedSources: TrackSource[];
+  isSavePlaylistLocked: boolean;
+  timeRange: TimeRange;
+  onTimeRangeChange: (timeRange: TimeRange) => void;
+  compareRange: TimeRange | null;
+  onCompareRangeChange: (compareRange: TimeRange | null) => void;
+  onOpenShortcuts: () => void;
+  accounts: AccountProfile[];
+  onSwitchAccount: (accountId: string) => void;
+  onRemoveAccount: (accountId: string) => void;
+  onAddAccount: () => void;
+  // The demo has one made-up user and logging out leaves it
+  isDemo: boolean;
   onLogout: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({
   user,
   onShuffle,
+  onSavePlaylist,
   onFilterChange,
   currentFilter,
+  onOpenMoodSettings,
+  availableGenres,
+  genreFilter,
+  onGenreFilterChange,
+  source,
+  onSourceChange,
+  lockedSources,
+  isSavePlaylistLocked,
+  timeRange,
+  onTimeRangeChange,
+  compareRange,
+  onCompareRangeChange,
+  onOpenShortcuts,
+  accounts,
+  onSwitchAccount,
+  onRemoveAccount,
+  onAddAccount,
+  isDemo,
   onLogout
 }) => {
-  const filters = ['all', 'high', 'medium', 'low'];
-  
+  const timeRanges = Object.keys(TIME_RANGE_LABELS) as TimeRange[];
+
   return (
     <header className="bg-gradient-to-r from-spotify-black to-card-bg border-b border-gray-700 sticky top-0 z-10 backdrop-blur-sm">
       <div className="container mx-auto px-4 py-6">
@@ -41,31 +100,100 @@ export const Header: React.FC<HeaderProps> = ({
             {/* User Profile */}
             {user && (
               <div className="flex items-center gap-3">
-                <div className="flex items-center gap-2 bg-gray-800/50 rounded-full px-3 py-2">
-                  {user.profileImage ? (
-                    <img 
-                      src={user.profileImage} 
-                      alt={user.displayName}
-                      className="w-6 h-6 rounded-full"
-                    />
-                  ) : (
-                    <User className="w-5 h-5 text-gray-400" />
-                  )}
-                  <span className="text-sm text-white font-medium">
-                    {user.displayName}
-                  </span>
-                </div>
+                {isDemo ? (
+                  <div className="flex items-center gap-2 bg-gray-800/50 rounded-full px-3 py-2">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-black bg-spotify-green rounded-full px-2 py-0.5">
+                      Demo
+                    </span>
+                    <span className="text-sm text-white font-medium">{user.displayName}</span>
+                  </div>
+                ) : (
+                  <AccountSwitcher
+                    user={user}
+                    accounts={accounts}
+                    onSwitch={onSwitchAccount}
+                    onRemove={onRemoveAccount}
+                    onAdd={onAddAccount}
+                  />
+                )}
+                <button
+                  onClick={onOpenShortcuts}
+                  className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+                  title="Keyboard shortcuts (?)"
+                >
+                  <Keyboard className="w-5 h-5" />
+                </button>
                 <button
                   onClick={onLogout}
                   className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
-                  title="Logout"
+                  title={isDemo ? 'Exit demo' : accounts.length > 1 ? 'Log out of all accounts' : 'Logout'}
                 >
                   <LogOut className="w-5 h-5" />
                 </button>
               </div>
             )}
 
-            {/* Energy Filter */}
+            {/* Board Source */}
+            <div className="flex items-center gap-2">
+              <Library className="w-4 h-4 text-gray-400" />
+              <select
+                value={source}
+                onChange={(e) => onSourceChange(e.target.value as TrackSource)}
+                className="bg-gray-800/80 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-spotify-green focus:ring-2 focus:ring-spotify-green/20 transition-all duration-200"
+              >
+                {(Object.keys(SOURCE_LABELS) as TrackSource[]).map((option) => (
+                  <option
+                    key={option}
+                    value={option}
+                    className={lockedSources.includes(option) ? 'text-gray-500' : undefined}
+                  >
+                    {SOURCE_LABELS[option]}
+                    {lockedSources.includes(option) && ' (needs access)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Top Tracks Time Range */}
+            <div className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4 text-gray-400" />
+              <select
+                value={timeRange}
+                onChange={(e) => onTimeRangeChange(e.target.value as TimeRange)}
+                disabled={source !== 'top'}
+                className="bg-gray-800/80 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-spotify-green focus:ring-2 focus:ring-spotify-green/20 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {timeRanges.map((range) => (
+                  <option key={range} value={range}>
+                    {TIME_RANGE_LABELS[range]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Taste Comparison */}
+            <div className="flex items-center gap-2">
+              <GitCompareArrows className="w-4 h-4 text-gray-400" />
+              <select
+                value={compareRange ?? 'none'}
+                onChange={(e) =>
+                  onCompareRangeChange(e.target.value === 'none' ? null : (e.target.value as TimeRange))
+                }
+                disabled={source !== 'top'}
+                className="bg-gray-800/80 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-spotify-green focus:ring-2 focus:ring-spotify-green/20 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <option value="none">No Comparison</option>
+                {timeRanges
+                  .filter((range) => range !== timeRange)
+                  .map((range) => (
+                    <option key={range} value={range}>
+                      vs {TIME_RANGE_LABELS[range]}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            {/* Mood Filter */}
             <div className="flex items-center gap-2">
               <Filter className="w-4 h-4 text-gray-400" />
               <select
@@ -73,20 +201,53 @@ export const Header: React.FC<HeaderProps> = ({
                 onChange={(e) => onFilterChange(e.target.value)}
                 className="bg-gray-800/80 text-white border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-spotify-green focus:ring-2 focus:ring-spotify-green/20 transition-all duration-200"
               >
-                <option value="all">All Energy</option>
-                <option value="high">High Energy</option>
-                <option value="medium">Medium Energy</option>
-                <option value="low">Low Energy</option>
+                <option value="all">All Moods</option>
+                {MOOD_FILTERS.map((mood) => (
+                  <option key={mood} value={mood}>
+                    {MOOD_LABELS[mood]}
+                  </option>
+                ))}
               </select>
+              <button
+                onClick={onOpenMoodSettings}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+                title="Tune mood classifier"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
             </div>
 
-            {/* Shuffle Button */}
+            {/* Genre Filter */}
+            <GenreFilter
+              genres={availableGenres}
+              selected={genreFilter}
+              onChange={onGenreFilterChange}
+            />
+
+            {/* Save Playlist Button */}
+            <button
+              onClick={onSavePlaylist}
+              className={`flex items-center gap-2 bg-gray-800/80 hover:bg-gray-700 border border-gray-600 px-4 py-2 rounded-full font-semibold transition-all duration-200 ${
+                isSavePlaylistLocked ? 'text-gray-500' : 'text-white'
+              }`}
+              title={
+                isSavePlaylistLocked
+                  ? 'Allow access to create playlists to save the board'
+                  : 'Save the current board as a Spotify playlist'
+              }
+            >
+              <ListPlus className="w-4 h-4" />
+              Save
+            </button>
+
+            {/* Shuffle Board Button; playback shuffle lives in the control bar */}
             <button
               onClick={onShuffle}
               className="flex items-center gap-2 bg-spotify-green hover:bg-green-400 text-black px-6 py-2 rounded-full font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-spotify-green/25"
+              title="Rearrange the cards on the board; doesn't change playback order"
             >
-              <Shuffle className="w-4 h-4" />
-              Shuffle
+              <Dices className="w-4 h-4" />
+              Shuffle board
             </button>
           </div>
         </div>
@@ -0,0 +1,120 @@
+/**
+ * History Timeline Component
+ *
+ * Shows recently played tracks grouped by day, newest first. Plays recorded
+ * in this browser also show how long they played and whether they were skipped.
+ */
+
+import React, { useMemo } from "react";
+import { Play, Pause, SkipForward } from "lucide-react";
+import { groupHistoryByDay } from "../utils/listeningHistory";
+import type { HistoryEntry, NowPlaying, Song } from "../types/music";
+
+interface HistoryTimelineProps {
+  entries: HistoryEntry[];
+  currentSong: NowPlaying | null;
+  isPlaying: boolean;
+  onSongPlay: (song: Song) => void;
+}
+
+const formatDay = (day: Date) => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+
+  if (day.getTime() === today.getTime()) return "Today";
+  if (day.getTime() === yesterday.getTime()) return "Yesterday";
+  return day.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+};
+
+export const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  entries,
+  currentSong,
+  isPlaying,
+  onSongPlay,
+}) => {
+  const days = useMemo(() => groupHistoryByDay(entries), [entries]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      {days.map(({ day, entries: plays }) => (
+        <section key={day.getTime()} className="mb-8 animate-fade-in">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-3">
+            {formatDay(day)}
+          </h3>
+
+          <ol className="border-l border-gray-700 ml-2">
+            {plays.map((entry) => {
+              const { song } = entry;
+              const isCurrent = currentSong?.id === song.id;
+
+              return (
+                <li
+                  key={`${song.id}-${entry.playedAt}`}
+                  className="group relative flex items-center gap-4 pl-6 py-2 hover:bg-gray-800/50 rounded-r-lg cursor-pointer"
+                  onClick={() => onSongPlay(song)}
+                >
+                  <span
+                    className={`absolute -left-1.5 w-3 h-3 rounded-full border-2 border-gray-900 ${
+                      isCurrent ? "bg-spotify-green" : "bg-gray-600"
+                    }`}
+                  />
+                  <span className="w-14 text-xs text-gray-500 font-mono">
+                    {new Date(entry.playedAt).toLocaleTimeString(undefined, {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+
+                  <div className="relative w-12 h-12 flex-shrink-0">
+                    <img
+                      src={song.albumArt}
+                      alt={song.album}
+                      className="w-12 h-12 rounded object-cover"
+                    />
+                    <div className="absolute inset-0 bg-black/50 rounded flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      {isCurrent && isPlaying ? (
+                        <Pause className="w-5 h-5 text-white" />
+                      ) : (
+                        <Play className="w-5 h-5 text-white" />
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-sm truncate ${isCurrent ? "text-spotify-green" : "text-white"}`}>
+                      {song.title}
+                    </p>
+                    <p className="text-xs text-gray-400 truncate">{song.artist}</p>
+                  </div>
+
+                  {entry.playedMs !== null && (
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      {entry.skipped && (
+                        <span
+                          className="flex items-center gap-1 text-yellow-500/80"
+                          title="Skipped before the end"
+                        >
+                          <SkipForward className="w-3 h-3" />
+                          Skipped
+                        </span>
+                      )}
+                      <span className="font-mono" title="Time played">
+                        {formatDuration(entry.playedMs)}
+                      </span>
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -2,19 +2,26 @@
  * Login Screen Component
  *
  * This component displays the login interface and handles Spotify authentication.
- * It includes helpful setup instructions for developers.
+ * It includes helpful setup instructions for developers, and a way into demo
+ * mode that works without a Spotify app or a network connection.
  */
 
 import React, { useState } from "react";
-import { Music, ExternalLink, Settings, AlertCircle } from "lucide-react";
+import { Music, ExternalLink, Settings, AlertCircle, PlayCircle } from "lucide-react";
 import { spotifyAuth } from "../services/spotifyAuth";
-import { validateSpotifyConfig } from "../config/spotify";
+import { enterDemoMode } from "../services/demoMode";
+import { SPOTIFY_CONFIG, getSpotifyConfigIssues } from "../config/spotify";
 
 export const LoginScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [showSetupHelp, setShowSetupHelp] = useState(false);
 
-  const isConfigValid = validateSpotifyConfig();
+  const configIssues = getSpotifyConfigIssues();
+  const isConfigValid = configIssues.length === 0;
+  // Suggest a redirect URI for this origin when the configured one won't work
+  const redirectUri = configIssues.some((issue) => issue.field === "REDIRECT_URI")
+    ? `${window.location.origin.replace("//localhost", "//127.0.0.1")}/callback`
+    : SPOTIFY_CONFIG.REDIRECT_URI;
 
   const handleLogin = async () => {
     if (!isConfigValid) {
@@ -54,9 +61,16 @@ export const LoginScreen: React.FC = () => {
                 <AlertCircle className="w-5 h-5" />
                 <span className="font-medium">Setup Required</span>
               </div>
-              <p className="text-sm text-red-300">
-                Spotify API credentials are missing. Please check your .env
-                file.
+              <ul className="space-y-2 text-left text-sm text-red-300">
+                {configIssues.map((issue) => (
+                  <li key={issue.envVar}>
+                    <code className="text-xs text-red-200">{issue.envVar}</code>
+                    <p>{issue.message}</p>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-red-300/80">
+                Update your .env file and restart the development server.
               </p>
             </div>
           )}
@@ -79,6 +93,18 @@ export const LoginScreen: React.FC = () => {
             )}
           </button>
 
+          <button
+            onClick={enterDemoMode}
+            disabled={isLoading}
+            className="mt-3 w-full border border-gray-600 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-full transition-all duration-200 flex items-center justify-center gap-2"
+          >
+            <PlayCircle className="w-5 h-5" />
+            Try demo
+          </button>
+          <p className="mt-2 text-xs text-gray-500">
+            Explore a sample library without a Spotify account.
+          </p>
+
           <div className="mt-6 pt-6 border-t border-gray-700">
             <button
               onClick={() => setShowSetupHelp(!showSetupHelp)}
@@ -122,10 +148,11 @@ export const LoginScreen: React.FC = () => {
                 </h4>
                 <p>
                   Add{" "}
-                  <code className="bg-gray-800 px-2 py-1 rounded">
-                    http://localhost:5173/callback
+                  <code className="bg-gray-800 px-2 py-1 rounded break-all">
+                    {redirectUri}
                   </code>{" "}
-                  to your app's redirect URIs.
+                  to your app's redirect URIs. Spotify doesn't accept
+                  "localhost", so use 127.0.0.1 for local development.
                 </p>
               </div>
 
@@ -134,17 +161,19 @@ export const LoginScreen: React.FC = () => {
                   3. Update Environment Variables
                 </h4>
                 <p>
-                  Copy your Client ID and Client Secret to the{" "}
+                  Copy your Client ID to the{" "}
                   <code className="bg-gray-800 px-2 py-1 rounded">.env</code>{" "}
                   file:
                 </p>
-                <div className="mt-2 bg-gray-800 p-3 rounded text-xs font-mono">
+                <div className="mt-2 bg-gray-800 p-3 rounded text-xs font-mono break-all">
                   <div>VITE_SPOTIFY_CLIENT_ID=your_client_id</div>
-                  <div>VITE_SPOTIFY_CLIENT_SECRET=your_client_secret</div>
-                  <div>
-                    VITE_SPOTIFY_REDIRECT_URI=http://localhost:5173/callback
-                  </div>
+                  <div>VITE_SPOTIFY_REDIRECT_URI={redirectUri}</div>
                 </div>
+                <p className="mt-2">
+                  Login uses PKCE, so the Client Secret isn't needed. Keep it
+                  out of the .env file: VITE_ variables are bundled into the
+                  app where anyone can read them.
+                </p>
               </div>
 
               <div>
@@ -1,12 +1,26 @@
-import React from "react";
-import type { Song } from "../types/music";
+import React, { useEffect, useRef } from "react";
+import type { NowPlaying, Song } from "../types/music";
 import { MusicCard } from "./MusicCard";
+import { LoadingSpinner } from "./LoadingSpinner";
+
+// Start fetching the next page this far before the user reaches the bottom
+const LOAD_MORE_MARGIN = "800px";
+const PAGE_STAGGER = 50;
 
 interface MasonryGridProps {
   songs: Song[];
-  currentSong: Song | null;
+  currentSong: NowPlaying | null;
   isPlaying: boolean;
   onSongPlay: (song: Song) => void;
+  savedTrackIds?: Record<string, boolean>;
+  onToggleSave?: (song: Song) => void;
+  // Liked Songs access hasn't been granted; hearts ask for it instead
+  isSaveLocked?: boolean;
+  onPlayNext?: (song: Song) => void;
+  onAddToQueue?: (song: Song) => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export const MasonryGrid: React.FC<MasonryGridProps> = ({
@@ -14,7 +28,35 @@ export const MasonryGrid: React.FC<MasonryGridProps> = ({
   currentSong,
   isPlaying,
   onSongPlay,
+  savedTrackIds = {},
+  onToggleSave,
+  isSaveLocked = false,
+  onPlayNext,
+  onAddToQueue,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // Load the next page as the sentinel below the grid scrolls into range
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: `0px 0px ${LOAD_MORE_MARGIN} 0px` }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
   // Group songs by energy for better visual distribution
   const groupedSongs = songs.reduce((acc, song) => {
     if (!acc[song.energy]) {
@@ -31,18 +73,32 @@ export const MasonryGrid: React.FC<MasonryGridProps> = ({
           <div
             key={song.id}
             className="break-inside-avoid animate-fade-in"
-            style={{ animationDelay: `${index * 0.1}s` }}
+            // Restart the stagger for every appended page
+            style={{ animationDelay: `${(index % PAGE_STAGGER) * 0.1}s` }}
           >
             <MusicCard
               song={song}
               isPlaying={isPlaying}
               isCurrentSong={currentSong?.id === song.id}
               onPlay={onSongPlay}
+              isSaved={Boolean(savedTrackIds[song.id])}
+              onToggleSave={onToggleSave}
+              isSaveLocked={isSaveLocked}
+              onPlayNext={onPlayNext}
+              onAddToQueue={onAddToQueue}
               className="mb-6"
             />
           </div>
         ))}
       </div>
+
+      {hasMore && <div ref={sentinelRef} className="h-px" />}
+
+      {isLoadingMore && (
+        <div className="py-8">
+          <LoadingSpinner size="md" message="Loading more tracks..." />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,171 @@
+/**
+ * Mood Settings Panel
+ *
+ * Lets users tune the weights and thresholds the mood classifier uses,
+ * then save them or restore the defaults.
+ */
+
+import React, { useState } from "react";
+import { X, RotateCcw } from "lucide-react";
+import type { MoodClassifierConfig } from "../services/moodClassifier";
+
+interface MoodSettingsPanelProps {
+  config: MoodClassifierConfig;
+  onSave: (config: MoodClassifierConfig) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const WEIGHT_LABELS: Record<keyof MoodClassifierConfig["weights"], string> = {
+  energy: "Energy",
+  danceability: "Danceability",
+  acousticness: "Non-acoustic sound",
+};
+
+const THRESHOLD_LABELS: Record<keyof MoodClassifierConfig["thresholds"], string> = {
+  highIntensity: "High intensity above",
+  lowIntensity: "Low intensity below",
+  positiveValence: "Euphoric valence above",
+  negativeValence: "Melancholic valence below",
+  acoustic: "Acoustic above",
+};
+
+const SLIDER_STEP = 0.05;
+
+type ThresholdKey = keyof MoodClassifierConfig["thresholds"];
+
+// Each lower bound has to stay at least a step below its upper bound
+const THRESHOLD_PAIRS: Array<{ low: ThresholdKey; high: ThresholdKey }> = [
+  { low: "lowIntensity", high: "highIntensity" },
+  { low: "negativeValence", high: "positiveValence" },
+];
+
+/** Keeps `value` on its side of the threshold it's paired with. */
+const clampThreshold = (
+  key: ThresholdKey,
+  value: number,
+  thresholds: MoodClassifierConfig["thresholds"]
+): number => {
+  for (const { low, high } of THRESHOLD_PAIRS) {
+    if (key === low) return Math.min(value, thresholds[high] - SLIDER_STEP);
+    if (key === high) return Math.max(value, thresholds[low] + SLIDER_STEP);
+  }
+  return value;
+};
+
+export const MoodSettingsPanel: React.FC<MoodSettingsPanelProps> = ({
+  config,
+  onSave,
+  onReset,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<MoodClassifierConfig>(config);
+
+  const updateWeight = (key: keyof MoodClassifierConfig["weights"], value: number) => {
+    setDraft((prev) => ({ ...prev, weights: { ...prev.weights, [key]: value } }));
+  };
+
+  const updateThreshold = (key: ThresholdKey, value: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      thresholds: {
+        ...prev.thresholds,
+        [key]: Math.round(clampThreshold(key, value, prev.thresholds) / SLIDER_STEP) * SLIDER_STEP,
+      },
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    onClose();
+  };
+
+  const renderSlider = (
+    key: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void
+  ) => (
+    <label key={key} className="block">
+      <div className="flex justify-between text-sm text-gray-300 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-gray-400">{value.toFixed(2)}</span>
+      </div>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step={SLIDER_STEP}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-spotify-green"
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-20 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card-bg border border-gray-700 rounded-2xl p-6 max-w-md w-full shadow-2xl animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Mood Classifier</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-white">Intensity Weights</h3>
+            {(Object.keys(WEIGHT_LABELS) as Array<keyof MoodClassifierConfig["weights"]>).map(
+              (key) =>
+                renderSlider(key, WEIGHT_LABELS[key], draft.weights[key], (value) =>
+                  updateWeight(key, value)
+                )
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-white">Thresholds</h3>
+            {(Object.keys(THRESHOLD_LABELS) as ThresholdKey[]).map(
+              (key) =>
+                renderSlider(key, THRESHOLD_LABELS[key], draft.thresholds[key], (value) =>
+                  updateThreshold(key, value)
+                )
+            )}
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-700">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to defaults
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-spotify-green hover:bg-green-400 text-black px-6 py-2 rounded-full font-semibold transition-all duration-200"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
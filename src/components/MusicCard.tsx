@@ -1,12 +1,28 @@
 import React from "react";
-import { Play, Pause, ExternalLink } from "lucide-react";
-import type { Song } from "../types/music";
+import { Play, Pause, ExternalLink, ArrowUp, ArrowDown, Minus, Sparkles, Heart, ListStart, ListEnd } from "lucide-react";
+import { MOOD_LABELS } from "../services/moodClassifier";
+import type { Mood, RankChange, Song } from "../types/music";
+
+const MOOD_STYLES: Record<Mood, { border: string; dot: string }> = {
+  euphoric: { border: "border-pink-400 shadow-pink-400/20", dot: "bg-pink-400" },
+  energetic: { border: "border-red-400 shadow-red-400/20", dot: "bg-red-400" },
+  balanced: { border: "border-yellow-400 shadow-yellow-400/20", dot: "bg-yellow-400" },
+  chill: { border: "border-blue-400 shadow-blue-400/20", dot: "bg-blue-400" },
+  melancholic: { border: "border-slate-400 shadow-slate-400/20", dot: "bg-slate-400" },
+  acoustic: { border: "border-emerald-400 shadow-emerald-400/20", dot: "bg-emerald-400" },
+  unknown: { border: "border-gray-400 shadow-gray-400/20", dot: "bg-gray-400" },
+};
 
 interface MusicCardProps {
   song: Song;
   isPlaying: boolean;
   isCurrentSong: boolean;
   onPlay: (song: Song) => void;
+  isSaved?: boolean;
+  onToggleSave?: (song: Song) => void;
+  isSaveLocked?: boolean;
+  onPlayNext?: (song: Song) => void;
+  onAddToQueue?: (song: Song) => void;
   className?: string;
 }
 
@@ -15,18 +31,54 @@ export const MusicCard: React.FC<MusicCardProps> = ({
   isPlaying,
   isCurrentSong,
   onPlay,
+  isSaved = false,
+  onToggleSave,
+  isSaveLocked = false,
+  onPlayNext,
+  onAddToQueue,
   className = "",
 }) => {
-  const getEnergyStyles = () => {
-    switch (song.energy) {
-      case "high":
-        return "border-red-400 shadow-red-400/20";
-      case "medium":
-        return "border-yellow-400 shadow-yellow-400/20";
-      case "low":
-        return "border-blue-400 shadow-blue-400/20";
+  const moodStyles = MOOD_STYLES[song.mood];
+
+  const renderRankChange = (rankChange: RankChange) => {
+    const { status, rank, previousRank } = rankChange;
+    const delta = rank !== null && previousRank !== null ? Math.abs(previousRank - rank) : 0;
+    const badge = "flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold shadow-lg";
+
+    switch (status) {
+      case "rose":
+        return (
+          <span className={`${badge} bg-green-500/90 text-black`}>
+            <ArrowUp className="w-3 h-3" />
+            {delta}
+          </span>
+        );
+      case "fell":
+        return (
+          <span className={`${badge} bg-red-500/90 text-white`}>
+            <ArrowDown className="w-3 h-3" />
+            {delta}
+          </span>
+        );
+      case "entered":
+        return (
+          <span className={`${badge} bg-spotify-green text-black`}>
+            <Sparkles className="w-3 h-3" />
+            New
+          </span>
+        );
+      case "left":
+        return (
+          <span className={`${badge} bg-gray-600 text-gray-200`}>
+            Dropped out
+          </span>
+        );
       default:
-        return "border-gray-400 shadow-gray-400/20";
+        return (
+          <span className={`${badge} bg-gray-700 text-gray-200`}>
+            <Minus className="w-3 h-3" />
+          </span>
+        );
     }
   };
 
@@ -34,6 +86,21 @@ export const MusicCard: React.FC<MusicCardProps> = ({
     onPlay(song);
   };
 
+  const handleToggleSave = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleSave?.(song);
+  };
+
+  const handlePlayNext = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onPlayNext?.(song);
+  };
+
+  const handleAddToQueue = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onAddToQueue?.(song);
+  };
+
   const handleSpotifyLink = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (song.spotifyUrl) {
@@ -46,8 +113,9 @@ export const MusicCard: React.FC<MusicCardProps> = ({
       className={`
         group relative bg-gradient-to-br from-card-bg to-gray-800 
         rounded-2xl overflow-hidden cursor-pointer transition-all duration-300
-        hover:scale-[1.02] border ${getEnergyStyles()}
+        hover:scale-[1.02] border ${moodStyles.border}
         ${isCurrentSong && isPlaying ? "animate-pulse-slow" : ""}
+        ${song.rankChange?.status === "left" ? "opacity-60" : ""}
         backdrop-blur-sm
         ${className}
       `}
@@ -80,19 +148,78 @@ export const MusicCard: React.FC<MusicCardProps> = ({
           </div>
         </div>
 
-        {/* Energy Indicator */}
+        {/* Rank Change */}
+        {song.rankChange && (
+          <div
+            className="absolute top-3 left-3"
+            title={
+              song.rankChange.previousRank !== null
+                ? `Previously #${song.rankChange.previousRank}`
+                : "Not in the compared range"
+            }
+          >
+            {renderRankChange(song.rankChange)}
+          </div>
+        )}
+
+        {/* Mood Indicator */}
         <div className="absolute top-3 right-3">
           <div
             className={`
             w-3 h-3 rounded-full shadow-lg border-2 border-white/20
-            ${song.energy === "high" ? "bg-red-400" : ""}
-            ${song.energy === "medium" ? "bg-yellow-400" : ""}
-            ${song.energy === "low" ? "bg-blue-400" : ""}
+            ${moodStyles.dot}
             ${isCurrentSong && isPlaying ? "animate-bounce-gentle" : ""}
           `}
           />
         </div>
 
+        {/* Like Button */}
+        {onToggleSave && (
+          <button
+            onClick={handleToggleSave}
+            className={`absolute bottom-3 left-3 bg-black/60 backdrop-blur-sm hover:bg-black/80 p-2 rounded-full transition-all duration-200 ${
+              isSaveLocked
+                ? "text-gray-500 opacity-0 group-hover:opacity-100"
+                : isSaved
+                  ? "text-spotify-green opacity-100"
+                  : "text-white opacity-0 group-hover:opacity-100"
+            }`}
+            title={
+              isSaveLocked
+                ? "Allow access to your Liked Songs to save tracks"
+                : isSaved
+                  ? "Remove from Liked Songs"
+                  : "Save to Liked Songs"
+            }
+          >
+            <Heart className={`w-4 h-4 ${isSaved ? "fill-current" : ""}`} />
+          </button>
+        )}
+
+        {/* Queue Buttons */}
+        {(onPlayNext || onAddToQueue) && (
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-2 opacity-0 group-hover:opacity-100 transition-all duration-200">
+            {onPlayNext && (
+              <button
+                onClick={handlePlayNext}
+                className="bg-black/60 backdrop-blur-sm hover:bg-spotify-green/90 text-white hover:text-black p-2 rounded-full transition-all duration-200"
+                title="Play next"
+              >
+                <ListStart className="w-4 h-4" />
+              </button>
+            )}
+            {onAddToQueue && (
+              <button
+                onClick={handleAddToQueue}
+                className="bg-black/60 backdrop-blur-sm hover:bg-spotify-green/90 text-white hover:text-black p-2 rounded-full transition-all duration-200"
+                title="Add to queue"
+              >
+                <ListEnd className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Spotify Link Button */}
         {song.spotifyUrl && (
           <button
@@ -114,8 +241,11 @@ export const MusicCard: React.FC<MusicCardProps> = ({
           {song.artist}
         </p>
         <div className="flex justify-between items-center text-sm text-gray-500">
-          <span className="bg-gray-700/80 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-medium">
-            {song.energy.charAt(0).toUpperCase() + song.energy.slice(1)} Energy
+          <span
+            className="bg-gray-700/80 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-medium"
+            title={song.hasAudioFeatures ? `${song.energy} energy` : "No audio features available"}
+          >
+            {MOOD_LABELS[song.mood]}
           </span>
           <span className="font-mono text-xs">
             {Math.floor(song.duration / 60)}:
@@ -0,0 +1,79 @@
+/**
+ * Permission Prompt
+ *
+ * Explains why a feature needs more Spotify access before sending the user
+ * to Spotify to grant it.
+ */
+
+import React from "react";
+import { X, ShieldCheck } from "lucide-react";
+import type { Capability } from "../config/spotify";
+
+interface PermissionPromptProps {
+  capability: Capability;
+  onContinue: () => void;
+  onClose: () => void;
+}
+
+const CAPABILITY_DESCRIPTIONS: Record<Capability, string> = {
+  profile: "see your Spotify profile",
+  topTracks: "see your top tracks",
+  playback: "play music and control playback on your devices",
+  savePlaylist: "create playlists in your library",
+  likedSongs: "see your Liked Songs",
+  editLibrary: "add and remove songs in your Liked Songs",
+  history: "see your recently played tracks",
+};
+
+export const PermissionPrompt: React.FC<PermissionPromptProps> = ({
+  capability,
+  onContinue,
+  onClose,
+}) => {
+  return (
+    <div
+      className="fixed inset-0 z-20 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card-bg border border-gray-700 rounded-2xl p-6 max-w-md w-full shadow-2xl animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <ShieldCheck className="w-5 h-5 text-spotify-green" />
+            More access needed
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-300">
+          Music Gallery needs your permission to {CAPABILITY_DESCRIPTIONS[capability]}.
+          Spotify will ask you to confirm, then bring you back here to pick up
+          where you left off.
+        </p>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-300 hover:text-white rounded-full transition-colors"
+          >
+            Not now
+          </button>
+          <button
+            onClick={onContinue}
+            className="px-4 py-2 text-sm bg-spotify-green hover:bg-green-400 text-black font-semibold rounded-full transition-all duration-200"
+          >
+            Continue to Spotify
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+/**
+ * Player Status Banner
+ *
+ * Explains what the player is doing while it isn't ready to play, offers a
+ * retry once it has given up, and notes when only previews can be played
+ * or playback is simulated for the demo.
+ */
+
+import React from "react";
+import { RefreshCw, ShieldCheck } from "lucide-react";
+import type { PlaybackBackendKind, PlayerStatus } from "../services/playbackBackend";
+
+interface PlayerStatusBannerProps {
+  status: PlayerStatus;
+  detail: string;
+  backendKind: PlaybackBackendKind | null;
+  // Title of a song waiting for the player to become ready
+  pendingTitle?: string;
+  onRetry: () => void;
+  // Set when previews play because the playback scopes weren't granted
+  onGrantPlaybackAccess?: () => void;
+}
+
+const STATUS_MESSAGES: Record<Exclude<PlayerStatus, "ready" | "failed">, string> = {
+  idle: "Setting up Spotify player...",
+  "loading-sdk": "Loading Spotify player...",
+  connecting: "Connecting to Spotify...",
+  reconnecting: "Reconnecting to Spotify...",
+};
+
+export const PlayerStatusBanner: React.FC<PlayerStatusBannerProps> = ({
+  status,
+  detail,
+  backendKind,
+  pendingTitle,
+  onRetry,
+  onGrantPlaybackAccess,
+}) => {
+  if (status === "ready") {
+    if (backendKind === "demo") {
+      return (
+        <div className="container mx-auto px-4 py-2">
+          <div className="bg-indigo-900/20 border border-indigo-500/30 rounded-lg p-4 text-center">
+            <p className="text-indigo-300 text-sm">
+              You're exploring a demo library. Playback is simulated, so tracks
+              advance without sound.
+            </p>
+          </div>
+        </div>
+      );
+    }
+    if (backendKind !== "preview") return null;
+
+    return (
+      <div className="container mx-auto px-4 py-2">
+        <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-4 text-center">
+          <p className="text-yellow-400 text-sm">
+            {onGrantPlaybackAccess
+              ? "Full-track playback needs permission to control playback, so 30-second previews will play instead."
+              : "Full-track playback needs Spotify Premium, so 30-second previews will play instead."}
+          </p>
+          {onGrantPlaybackAccess && (
+            <button
+              onClick={onGrantPlaybackAccess}
+              className="mt-2 inline-flex items-center gap-2 text-sm text-yellow-300 hover:text-yellow-200 underline"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Allow playback
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (status === "failed") {
+    return (
+      <div className="container mx-auto px-4 py-2">
+        <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4 text-center">
+          <p className="text-red-400 text-sm">
+            The Spotify player couldn't connect.{detail && ` ${detail}`}
+          </p>
+          <button
+            onClick={onRetry}
+            className="mt-2 inline-flex items-center gap-2 text-sm text-red-300 hover:text-red-200 underline"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-2">
+      <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-4 text-center">
+        <p className="text-yellow-400 text-sm">
+          {STATUS_MESSAGES[status]}{" "}
+          {pendingTitle
+            ? `"${pendingTitle}" will start once it's ready.`
+            : status === "reconnecting"
+              ? detail
+              : "You'll be able to play tracks once it's ready."}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * Queue Drawer Component
+ *
+ * Slides up above the control bar to show the tracks coming up next.
+ */
+
+import React from "react";
+import { X, Trash2 } from "lucide-react";
+import type { Song } from "../types/music";
+
+interface QueueDrawerProps {
+  upcoming: Song[];
+  // Index of the first upcoming track within the full queue
+  startIndex: number;
+  onJumpTo: (index: number) => void;
+  onRemove: (index: number) => void;
+  onClose: () => void;
+}
+
+export const QueueDrawer: React.FC<QueueDrawerProps> = ({
+  upcoming,
+  startIndex,
+  onJumpTo,
+  onRemove,
+  onClose,
+}) => {
+  return (
+    <div className="fixed bottom-24 right-4 w-80 max-h-[60vh] flex flex-col bg-card-bg border border-gray-700 rounded-2xl shadow-2xl z-20 animate-scale-in">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h3 className="text-white font-semibold">Up Next</h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+          title="Close queue"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-400 text-center">
+          Nothing queued. Play a card or add tracks to the queue.
+        </p>
+      ) : (
+        <ul className="overflow-y-auto py-2">
+          {upcoming.map((song, i) => (
+            <li
+              key={song.id}
+              className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-800 cursor-pointer"
+              onClick={() => onJumpTo(startIndex + i)}
+            >
+              <img
+                src={song.albumArt}
+                alt={song.album}
+                className="w-10 h-10 rounded object-cover"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white truncate">{song.title}</p>
+                <p className="text-xs text-gray-400 truncate">{song.artist}</p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(startIndex + i);
+                }}
+                className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-all duration-200"
+                title="Remove from queue"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
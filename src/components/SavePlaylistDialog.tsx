@@ -0,0 +1,220 @@
+/**
+ * Save Playlist Dialog
+ *
+ * Saves the songs currently on the board, in their shown order, as a new
+ * Spotify playlist and reports progress and any tracks that failed to add.
+ */
+
+import React, { useState } from "react";
+import { X, Save, ExternalLink, AlertCircle, CheckCircle } from "lucide-react";
+import { spotifyApi } from "../services/spotifyApi";
+import type { PlaylistAddResult, Song } from "../types/music";
+
+interface SavePlaylistDialogProps {
+  songs: Song[];
+  userId: string;
+  onClose: () => void;
+}
+
+type SaveStatus = "idle" | "saving" | "done" | "error";
+
+export const SavePlaylistDialog: React.FC<SavePlaylistDialogProps> = ({
+  songs,
+  userId,
+  onClose,
+}) => {
+  const [name, setName] = useState(
+    `Music Gallery – ${new Date().toLocaleDateString()}`
+  );
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [status, setStatus] = useState<SaveStatus>("idle");
+  const [progress, setProgress] = useState(0);
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<PlaylistAddResult | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const failedSongs = result
+    ? songs.filter((song) => result.failedUris.includes(song.uri))
+    : [];
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setStatus("saving");
+    setProgress(0);
+    try {
+      const playlist = await spotifyApi.createPlaylist(userId, {
+        name: name.trim(),
+        description: description.trim(),
+        isPublic,
+      });
+      setPlaylistUrl(playlist.url);
+
+      const addResult = await spotifyApi.addTracksToPlaylist(
+        playlist.id,
+        songs.map((song) => song.uri),
+        (processed, total) => setProgress(processed / total)
+      );
+      setResult(addResult);
+      setStatus("done");
+    } catch (error) {
+      console.error("Error saving playlist:", error);
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to create playlist"
+      );
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-20 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={status === "saving" ? undefined : onClose}
+    >
+      <div
+        className="bg-card-bg border border-gray-700 rounded-2xl p-6 max-w-md w-full shadow-2xl animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Save as Playlist</h2>
+          <button
+            onClick={onClose}
+            disabled={status === "saving"}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200 disabled:opacity-50"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {status === "idle" && (
+          <form onSubmit={handleSave} className="space-y-4">
+            <p className="text-sm text-gray-400">
+              {songs.length} track{songs.length === 1 ? "" : "s"} will be saved in
+              the order they appear on your board.
+            </p>
+
+            <label className="block">
+              <span className="text-sm text-gray-300">Name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+                className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-spotify-green"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm text-gray-300">Description</span>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={300}
+                rows={3}
+                className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-spotify-green resize-none"
+              />
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+                className="accent-spotify-green"
+              />
+              Public playlist
+            </label>
+
+            <button
+              type="submit"
+              disabled={!name.trim() || songs.length === 0}
+              className="w-full flex items-center justify-center gap-2 bg-spotify-green hover:bg-green-400 disabled:bg-gray-600 disabled:cursor-not-allowed text-black font-semibold py-3 rounded-full transition-all duration-200"
+            >
+              <Save className="w-4 h-4" />
+              Save Playlist
+            </button>
+          </form>
+        )}
+
+        {status === "saving" && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-300">Adding tracks to "{name}"...</p>
+            <div className="w-full bg-gray-700 rounded-full h-2">
+              <div
+                className="bg-spotify-green h-2 rounded-full transition-all duration-200"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 text-right font-mono">
+              {Math.round(progress * 100)}%
+            </p>
+          </div>
+        )}
+
+        {status === "done" && result && (
+          <div className="space-y-4">
+            <div
+              className={`flex items-center gap-2 ${
+                failedSongs.length > 0 ? "text-yellow-400" : "text-green-400"
+              }`}
+            >
+              {failedSongs.length > 0 ? (
+                <AlertCircle className="w-5 h-5" />
+              ) : (
+                <CheckCircle className="w-5 h-5" />
+              )}
+              <span className="font-medium">
+                Added {result.added} of {songs.length} tracks
+              </span>
+            </div>
+
+            {failedSongs.length > 0 && (
+              <div className="max-h-40 overflow-y-auto bg-gray-800/60 rounded-lg p-3 text-sm text-gray-300">
+                <p className="text-gray-400 mb-2">These tracks could not be added:</p>
+                <ul className="space-y-1">
+                  {failedSongs.map((song) => (
+                    <li key={song.id} className="truncate">
+                      {song.title} – {song.artist}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {playlistUrl && (
+              <a
+                href={playlistUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="w-full flex items-center justify-center gap-2 bg-spotify-green hover:bg-green-400 text-black font-semibold py-3 rounded-full transition-all duration-200"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Open in Spotify
+              </a>
+            )}
+          </div>
+        )}
+
+        {status === "error" && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-red-400">
+              <AlertCircle className="w-5 h-5" />
+              <span className="font-medium">Couldn't create the playlist</span>
+            </div>
+            <p className="text-sm text-red-300">{errorMessage}</p>
+            <button
+              onClick={() => setStatus("idle")}
+              className="text-sm text-gray-300 hover:text-white underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -8,6 +8,8 @@ import React, { useState, useCallback } from 'react';
 import { Search, X } from 'lucide-react';
 
 interface SearchBarProps {
+  // Lets the "/" shortcut focus the input
+  ref?: React.Ref<HTMLInputElement>;
   onSearch: (query: string) => void;
   onClear: () => void;
   isLoading?: boolean;
@@ -15,6 +17,7 @@ interface SearchBarProps {
 }
 
 export const SearchBar: React.FC<SearchBarProps> = ({
+  ref,
   onSearch,
   onClear,
   isLoading = false,
@@ -40,6 +43,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
         <div className="relative">
           <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
           <input
+            ref={ref}
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
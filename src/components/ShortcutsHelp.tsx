@@ -0,0 +1,56 @@
+/**
+ * Shortcuts Help Overlay
+ *
+ * Lists the global keyboard shortcuts.
+ */
+
+import React from "react";
+import { X } from "lucide-react";
+import { KEYBOARD_SHORTCUTS } from "../hooks/useKeyboardShortcuts";
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ onClose }) => {
+  return (
+    <div
+      className="fixed inset-0 z-20 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card-bg border border-gray-700 rounded-2xl p-6 max-w-md w-full shadow-2xl animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-full transition-all duration-200"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <ul className="space-y-3">
+          {KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+            <li key={description} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-gray-300">{description}</span>
+              <span className="flex gap-1">
+                {keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-[2rem] text-center px-2 py-1 text-xs font-mono text-white bg-gray-800 border border-gray-600 rounded"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+/**
+ * Sleep Timer Menu
+ *
+ * Control bar button for setting or cancelling the sleep timer, with a
+ * countdown while one is running.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Moon, Check } from "lucide-react";
+import type { SleepTimer } from "../hooks/useSleepTimer";
+
+interface SleepTimerMenuProps {
+  timer: SleepTimer | null;
+  remainingMs: number | null;
+  onStart: (minutes: number | "end-of-track") => void;
+  onCancel: () => void;
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90];
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = (totalSeconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${mins.toString().padStart(2, "0")}:${secs}` : `${mins}:${secs}`;
+};
+
+export const SleepTimerMenu: React.FC<SleepTimerMenuProps> = ({
+  timer,
+  remainingMs,
+  onStart,
+  onCancel,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleStart = (minutes: number | "end-of-track") => {
+    onStart(minutes);
+    setIsOpen(false);
+  };
+
+  const handleCancel = () => {
+    onCancel();
+    setIsOpen(false);
+  };
+
+  const optionClass = "w-full flex items-center justify-between px-4 py-2 text-left text-sm hover:bg-gray-800";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 transition-colors p-2 rounded-full hover:bg-gray-800 ${
+          timer ? "text-spotify-green" : "text-gray-400 hover:text-white"
+        }`}
+        title="Sleep timer"
+      >
+        <Moon className="w-5 h-5" />
+        {timer && remainingMs !== null && (
+          <span className="text-xs font-mono">
+            {timer.mode === "end-of-track" ? "End" : formatCountdown(remainingMs)}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 right-0 w-56 bg-card-bg border border-gray-700 rounded-2xl shadow-2xl z-20 animate-scale-in overflow-hidden">
+          <h3 className="px-4 py-3 border-b border-gray-700 text-white font-semibold text-sm">
+            Sleep timer
+          </h3>
+          <ul className="py-2">
+            {DURATION_OPTIONS.map((minutes) => (
+              <li key={minutes}>
+                <button onClick={() => handleStart(minutes)} className={`${optionClass} text-white`}>
+                  {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`}
+                </button>
+              </li>
+            ))}
+            <li>
+              <button
+                onClick={() => handleStart("end-of-track")}
+                className={`${optionClass} ${timer?.mode === "end-of-track" ? "text-spotify-green" : "text-white"}`}
+              >
+                End of track
+                {timer?.mode === "end-of-track" && <Check className="w-4 h-4" />}
+              </button>
+            </li>
+            {timer && (
+              <li className="border-t border-gray-700 mt-2 pt-2">
+                <button onClick={handleCancel} className={`${optionClass} text-red-400`}>
+                  Turn off timer
+                </button>
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,39 +1,223 @@
 /**
  * Spotify Web API Configuration
- * 
- * This file contains all Spotify API related configuration.
- * Make sure to set your credentials in the .env file:
+ *
+ * This file contains all Spotify API related configuration, read from the
+ * environment and checked against a small schema. Set these in your .env file:
  * - VITE_SPOTIFY_CLIENT_ID: Your Spotify app's client ID
- * - VITE_SPOTIFY_CLIENT_SECRET: Your Spotify app's client secret  
  * - VITE_SPOTIFY_REDIRECT_URI: Your app's redirect URI (must match Spotify app settings)
+ *
+ * The app authenticates with PKCE, so no client secret is needed. Never put one
+ * in a VITE_ variable: everything prefixed that way ends up in the browser bundle.
+ *
+ * Per-environment values go in Vite's mode files (.env.development,
+ * .env.production, .env.[mode].local), which take precedence over .env.
+ * MODE_DEFAULTS below fills in anything a mode leaves unset.
  */
 
-export const SPOTIFY_CONFIG = {
-  CLIENT_ID: import.meta.env.VITE_SPOTIFY_CLIENT_ID,
-  CLIENT_SECRET: import.meta.env.VITE_SPOTIFY_CLIENT_SECRET,
-  REDIRECT_URI: import.meta.env.VITE_SPOTIFY_REDIRECT_URI || 'http://localhost:5173/callback',
-  SCOPES: [
-    'user-read-private',
-    'user-read-email',
-    'user-top-read',
-    'streaming',
-    'user-read-playback-state',
-    'user-modify-playback-state'
-  ].join(' '),
+export interface SpotifyConfig {
+  CLIENT_ID: string;
+  REDIRECT_URI: string;
+  SCOPES: string;
+  API_BASE_URL: string;
+  AUTH_URL: string;
+  TOKEN_URL: string;
+}
+
+type ConfigField = 'CLIENT_ID' | 'REDIRECT_URI' | 'API_BASE_URL' | 'ACCOUNTS_BASE_URL';
+
+export type SpotifyConfigIssueCode =
+  | 'missing'
+  | 'invalid-client-id'
+  | 'invalid-url'
+  | 'insecure-url'
+  | 'localhost-redirect'
+  | 'redirect-path'
+  | 'redirect-origin-mismatch';
+
+export interface SpotifyConfigIssue {
+  field: ConfigField;
+  // Environment variable to change to fix the issue
+  envVar: SpotifyEnvVar;
+  code: SpotifyConfigIssueCode;
+  message: string;
+}
+
+type SpotifyEnvVar =
+  | 'VITE_SPOTIFY_CLIENT_ID'
+  | 'VITE_SPOTIFY_REDIRECT_URI'
+  | 'VITE_SPOTIFY_API_BASE_URL'
+  | 'VITE_SPOTIFY_ACCOUNTS_BASE_URL';
+
+// Every field needs a value; the API URLs fall back to Spotify's own
+interface FieldSchema {
+  envVar: SpotifyEnvVar;
+  validate?: (value: string) => Omit<SpotifyConfigIssue, 'field' | 'envVar'> | null;
+}
+
+const CALLBACK_PATH = '/callback';
+
+export type Capability =
+  | 'profile'
+  | 'topTracks'
+  | 'playback'
+  | 'savePlaylist'
+  | 'likedSongs'
+  | 'editLibrary'
+  | 'history';
+
+/**
+ * Scopes each feature needs. Logging in asks for all of them, but older
+ * sessions may predate a scope, so features check before calling the API.
+ */
+export const CAPABILITY_SCOPES: Record<Capability, string[]> = {
+  profile: ['user-read-private', 'user-read-email'],
+  topTracks: ['user-top-read'],
+  playback: ['streaming', 'user-read-playback-state', 'user-modify-playback-state'],
+  savePlaylist: ['playlist-modify-public', 'playlist-modify-private'],
+  likedSongs: ['user-library-read'],
+  editLibrary: ['user-library-read', 'user-library-modify'],
+  history: ['user-read-recently-played'],
+};
+
+const SCOPES = [...new Set(Object.values(CAPABILITY_SCOPES).flat())];
+
+// Fallbacks for each Vite mode; anything set in the environment wins
+const MODE_DEFAULTS: Record<string, Partial<Record<ConfigField, string>>> = {
+  development: {
+    REDIRECT_URI: `http://127.0.0.1:5173${CALLBACK_PATH}`,
+  },
+};
+
+const BASE_DEFAULTS: Partial<Record<ConfigField, string>> = {
   API_BASE_URL: 'https://api.spotify.com/v1',
-  AUTH_URL: 'https://accounts.spotify.com/authorize',
-  TOKEN_URL: 'https://accounts.spotify.com/api/token'
+  ACCOUNTS_BASE_URL: 'https://accounts.spotify.com',
+};
+
+const isLoopbackHost = (hostname: string) =>
+  hostname === '127.0.0.1' || hostname === '[::1]';
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+const validateHttpsUrl = (value: string) => {
+  const url = parseUrl(value);
+  if (!url) {
+    return { code: 'invalid-url' as const, message: `"${value}" is not a valid URL.` };
+  }
+  if (url.protocol !== 'https:') {
+    return { code: 'insecure-url' as const, message: `"${value}" must use https.` };
+  }
+  return null;
+};
+
+const validateRedirectUri = (value: string) => {
+  const url = parseUrl(value);
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    return { code: 'invalid-url' as const, message: `"${value}" is not a valid http(s) URL.` };
+  }
+  // Spotify rejects "localhost" and only allows plain http on loopback addresses
+  if (url.hostname === 'localhost') {
+    return {
+      code: 'localhost-redirect' as const,
+      message: `Spotify doesn't accept "localhost" redirect URIs. Use http://127.0.0.1${url.port ? `:${url.port}` : ''}${url.pathname} instead, both here and in your Spotify app settings.`,
+    };
+  }
+  if (url.protocol === 'http:' && !isLoopbackHost(url.hostname)) {
+    return {
+      code: 'insecure-url' as const,
+      message: `"${value}" must use https. Plain http is only allowed for 127.0.0.1.`,
+    };
+  }
+  if (url.pathname !== CALLBACK_PATH) {
+    return {
+      code: 'redirect-path' as const,
+      message: `The redirect URI must end in ${CALLBACK_PATH}, which is where the app finishes logging in.`,
+    };
+  }
+  // The PKCE verifier lives in this origin's storage, so Spotify has to send the user back here
+  if (url.origin !== window.location.origin) {
+    return {
+      code: 'redirect-origin-mismatch' as const,
+      message: `The redirect URI points to ${url.origin}, but the app is running on ${window.location.origin}. Open the app at ${url.origin} or change the redirect URI.`,
+    };
+  }
+  return null;
+};
+
+const CONFIG_SCHEMA: Record<ConfigField, FieldSchema> = {
+  CLIENT_ID: {
+    envVar: 'VITE_SPOTIFY_CLIENT_ID',
+    validate: (value) =>
+      /^[0-9a-f]{32}$/i.test(value)
+        ? null
+        : {
+            code: 'invalid-client-id',
+            message: "The client ID should be the 32-character hex string shown in your Spotify app's settings.",
+          },
+  },
+  REDIRECT_URI: {
+    envVar: 'VITE_SPOTIFY_REDIRECT_URI',
+    validate: validateRedirectUri,
+  },
+  API_BASE_URL: {
+    envVar: 'VITE_SPOTIFY_API_BASE_URL',
+    validate: validateHttpsUrl,
+  },
+  ACCOUNTS_BASE_URL: {
+    envVar: 'VITE_SPOTIFY_ACCOUNTS_BASE_URL',
+    validate: validateHttpsUrl,
+  },
+};
+
+const resolveField = (field: ConfigField): string => {
+  const fromEnv = import.meta.env[CONFIG_SCHEMA[field].envVar]?.trim();
+  return fromEnv || MODE_DEFAULTS[import.meta.env.MODE]?.[field] || BASE_DEFAULTS[field] || '';
+};
+
+const resolved = {
+  CLIENT_ID: resolveField('CLIENT_ID'),
+  REDIRECT_URI: resolveField('REDIRECT_URI'),
+  API_BASE_URL: resolveField('API_BASE_URL'),
+  ACCOUNTS_BASE_URL: resolveField('ACCOUNTS_BASE_URL'),
+};
+
+export const SPOTIFY_CONFIG: SpotifyConfig = {
+  CLIENT_ID: resolved.CLIENT_ID,
+  REDIRECT_URI: resolved.REDIRECT_URI,
+  SCOPES: SCOPES.join(' '),
+  API_BASE_URL: resolved.API_BASE_URL.replace(/\/$/, ''),
+  AUTH_URL: `${resolved.ACCOUNTS_BASE_URL.replace(/\/$/, '')}/authorize`,
+  TOKEN_URL: `${resolved.ACCOUNTS_BASE_URL.replace(/\/$/, '')}/api/token`,
+};
+
+/** Checks the resolved configuration against the schema. */
+export const getSpotifyConfigIssues = (): SpotifyConfigIssue[] => {
+  return (Object.keys(CONFIG_SCHEMA) as ConfigField[]).flatMap((field) => {
+    const { envVar, validate } = CONFIG_SCHEMA[field];
+    const value = resolved[field];
+
+    if (!value) {
+      return [{ field, envVar, code: 'missing' as const, message: `${envVar} is not set.` }];
+    }
+
+    const issue = validate?.(value);
+    return issue ? [{ field, envVar, ...issue }] : [];
+  });
 };
 
 // Validate required environment variables
 export const validateSpotifyConfig = (): boolean => {
-  const required = ['CLIENT_ID', 'CLIENT_SECRET', 'REDIRECT_URI'];
-  const missing = required.filter(key => !SPOTIFY_CONFIG[key as keyof typeof SPOTIFY_CONFIG]);
-  
-  if (missing.length > 0) {
-    console.error('Missing Spotify configuration:', missing);
+  const issues = getSpotifyConfigIssues();
+
+  if (issues.length > 0) {
+    console.error('Invalid Spotify configuration:', issues);
     return false;
   }
-  
+
   return true;
-};
\ No newline at end of file
+};
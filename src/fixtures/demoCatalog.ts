@@ -0,0 +1,333 @@
+/**
+ * Demo Catalog
+ *
+ * Bundled music for demo mode: made-up artists and tracks with hand-picked
+ * audio features that cover every mood, plus the user's top tracks, Liked
+ * Songs and listening history. Cover art is generated inline so the board
+ * renders without a network connection.
+ */
+
+import type { AudioFeatures, TimeRange } from "../types/music";
+
+export interface DemoArtist {
+  id: string;
+  name: string;
+  genres: string[];
+}
+
+export interface DemoTrack {
+  id: string;
+  title: string;
+  artistIds: string[];
+  album: string;
+  durationMs: number;
+  // Null for tracks Spotify would have no features for
+  audioFeatures: AudioFeatures | null;
+  // Gradient stops for the generated cover
+  cover: [string, string];
+}
+
+export const DEMO_USER = {
+  id: "demo-listener",
+  display_name: "Demo Listener",
+  email: "demo@example.com",
+  images: [] as Array<{ url: string }>,
+  product: "premium",
+};
+
+export const DEMO_ARTISTS: DemoArtist[] = [
+  { id: "demo-artist-neon-harbor", name: "Neon Harbor", genres: ["synthwave", "electropop"] },
+  { id: "demo-artist-quiet-orchard", name: "The Quiet Orchard", genres: ["indie folk", "acoustic"] },
+  { id: "demo-artist-marisol-vega", name: "Marisol Vega", genres: ["latin pop", "reggaeton"] },
+  { id: "demo-artist-kestrel-avenue", name: "Kestrel Avenue", genres: ["indie rock", "alternative"] },
+  { id: "demo-artist-lumen-drift", name: "Lumen Drift", genres: ["ambient", "downtempo"] },
+  { id: "demo-artist-brass-parade", name: "Brass Parade", genres: ["funk", "soul"] },
+  { id: "demo-artist-juniper-lane", name: "Juniper Lane", genres: ["singer-songwriter", "acoustic"] },
+  { id: "demo-artist-static-bloom", name: "Static Bloom", genres: ["house", "edm"] },
+  { id: "demo-artist-ora-nakamura", name: "Ora Nakamura", genres: ["jazz", "neo soul"] },
+  { id: "demo-artist-halcyon-youth", name: "Halcyon Youth", genres: ["pop punk", "alternative"] },
+];
+
+const features = (
+  energy: number,
+  valence: number,
+  danceability: number,
+  acousticness: number
+): AudioFeatures => ({ energy, valence, danceability, acousticness });
+
+const minutes = (duration: string): number => {
+  const [m, s] = duration.split(":").map(Number);
+  return (m * 60 + s) * 1000;
+};
+
+export const DEMO_TRACKS: DemoTrack[] = [
+  {
+    id: "demo-track-01",
+    title: "Midnight Arcade",
+    artistIds: ["demo-artist-neon-harbor"],
+    album: "Coastline Circuits",
+    durationMs: minutes("3:42"),
+    audioFeatures: features(0.86, 0.78, 0.8, 0.05),
+    cover: ["#EC4899", "#6366F1"],
+  },
+  {
+    id: "demo-track-02",
+    title: "Chrome Sunset",
+    artistIds: ["demo-artist-neon-harbor"],
+    album: "Coastline Circuits",
+    durationMs: minutes("4:05"),
+    audioFeatures: features(0.72, 0.55, 0.7, 0.08),
+    cover: ["#F97316", "#7C3AED"],
+  },
+  {
+    id: "demo-track-03",
+    title: "Paper Lanterns",
+    artistIds: ["demo-artist-quiet-orchard"],
+    album: "Windfall",
+    durationMs: minutes("3:18"),
+    audioFeatures: features(0.28, 0.52, 0.45, 0.88),
+    cover: ["#10B981", "#FDE68A"],
+  },
+  {
+    id: "demo-track-04",
+    title: "Where the River Bends",
+    artistIds: ["demo-artist-quiet-orchard"],
+    album: "Windfall",
+    durationMs: minutes("4:31"),
+    audioFeatures: features(0.22, 0.24, 0.38, 0.91),
+    cover: ["#065F46", "#A7F3D0"],
+  },
+  {
+    id: "demo-track-05",
+    title: "Fuego Lento",
+    artistIds: ["demo-artist-marisol-vega"],
+    album: "Noches de Verano",
+    durationMs: minutes("3:27"),
+    audioFeatures: features(0.81, 0.84, 0.89, 0.12),
+    cover: ["#DC2626", "#FBBF24"],
+  },
+  {
+    id: "demo-track-06",
+    title: "Mar Abierto",
+    artistIds: ["demo-artist-marisol-vega"],
+    album: "Noches de Verano",
+    durationMs: minutes("3:09"),
+    audioFeatures: features(0.68, 0.71, 0.83, 0.2),
+    cover: ["#0EA5E9", "#F472B6"],
+  },
+  {
+    id: "demo-track-07",
+    title: "Static on the Line",
+    artistIds: ["demo-artist-kestrel-avenue"],
+    album: "Overpass",
+    durationMs: minutes("3:55"),
+    audioFeatures: features(0.88, 0.31, 0.5, 0.03),
+    cover: ["#1F2937", "#EF4444"],
+  },
+  {
+    id: "demo-track-08",
+    title: "Last Train Home",
+    artistIds: ["demo-artist-kestrel-avenue"],
+    album: "Overpass",
+    durationMs: minutes("4:22"),
+    audioFeatures: features(0.55, 0.3, 0.42, 0.15),
+    cover: ["#334155", "#94A3B8"],
+  },
+  {
+    id: "demo-track-09",
+    title: "Slow Tide",
+    artistIds: ["demo-artist-lumen-drift"],
+    album: "Low Light",
+    durationMs: minutes("5:48"),
+    audioFeatures: features(0.18, 0.42, 0.35, 0.55),
+    cover: ["#312E81", "#38BDF8"],
+  },
+  {
+    id: "demo-track-10",
+    title: "Glasshouse",
+    artistIds: ["demo-artist-lumen-drift"],
+    album: "Low Light",
+    durationMs: minutes("6:12"),
+    audioFeatures: features(0.25, 0.5, 0.48, 0.4),
+    cover: ["#4338CA", "#C4B5FD"],
+  },
+  {
+    id: "demo-track-11",
+    title: "Get Up and Strut",
+    artistIds: ["demo-artist-brass-parade"],
+    album: "Horns Up",
+    durationMs: minutes("3:36"),
+    audioFeatures: features(0.84, 0.92, 0.87, 0.18),
+    cover: ["#F59E0B", "#B91C1C"],
+  },
+  {
+    id: "demo-track-12",
+    title: "Velvet Hours",
+    artistIds: ["demo-artist-brass-parade", "demo-artist-ora-nakamura"],
+    album: "Horns Up",
+    durationMs: minutes("4:14"),
+    audioFeatures: features(0.52, 0.58, 0.66, 0.35),
+    cover: ["#92400E", "#FCD34D"],
+  },
+  {
+    id: "demo-track-13",
+    title: "Kitchen Table",
+    artistIds: ["demo-artist-juniper-lane"],
+    album: "Small Rooms",
+    durationMs: minutes("2:58"),
+    audioFeatures: features(0.3, 0.64, 0.52, 0.82),
+    cover: ["#A16207", "#FEF3C7"],
+  },
+  {
+    id: "demo-track-14",
+    title: "Letters I Never Sent",
+    artistIds: ["demo-artist-juniper-lane"],
+    album: "Small Rooms",
+    durationMs: minutes("3:44"),
+    audioFeatures: features(0.24, 0.18, 0.4, 0.6),
+    cover: ["#475569", "#E2E8F0"],
+  },
+  {
+    id: "demo-track-15",
+    title: "Pulse Theory",
+    artistIds: ["demo-artist-static-bloom"],
+    album: "Afterglow EP",
+    durationMs: minutes("5:02"),
+    audioFeatures: features(0.93, 0.66, 0.9, 0.02),
+    cover: ["#DB2777", "#22D3EE"],
+  },
+  {
+    id: "demo-track-16",
+    title: "Warehouse Lights",
+    artistIds: ["demo-artist-static-bloom"],
+    album: "Afterglow EP",
+    durationMs: minutes("6:30"),
+    audioFeatures: features(0.9, 0.38, 0.85, 0.04),
+    cover: ["#111827", "#A855F7"],
+  },
+  {
+    id: "demo-track-17",
+    title: "Blue Hour Waltz",
+    artistIds: ["demo-artist-ora-nakamura"],
+    album: "Late Set",
+    durationMs: minutes("4:49"),
+    audioFeatures: features(0.35, 0.46, 0.5, 0.74),
+    cover: ["#1E3A8A", "#93C5FD"],
+  },
+  {
+    id: "demo-track-18",
+    title: "Satin Static",
+    artistIds: ["demo-artist-ora-nakamura", "demo-artist-lumen-drift"],
+    album: "Late Set",
+    durationMs: minutes("4:03"),
+    audioFeatures: features(0.42, 0.62, 0.61, 0.45),
+    cover: ["#6D28D9", "#F9A8D4"],
+  },
+  {
+    id: "demo-track-19",
+    title: "Skate Park Summer",
+    artistIds: ["demo-artist-halcyon-youth"],
+    album: "Nothing Left to Prove",
+    durationMs: minutes("2:47"),
+    audioFeatures: features(0.95, 0.8, 0.58, 0.01),
+    cover: ["#FACC15", "#16A34A"],
+  },
+  {
+    id: "demo-track-20",
+    title: "Bad Reception",
+    artistIds: ["demo-artist-halcyon-youth"],
+    album: "Nothing Left to Prove",
+    durationMs: minutes("3:12"),
+    audioFeatures: features(0.91, 0.27, 0.46, 0.02),
+    cover: ["#7F1D1D", "#F87171"],
+  },
+  {
+    id: "demo-track-21",
+    title: "Neon & Lime",
+    artistIds: ["demo-artist-neon-harbor", "demo-artist-marisol-vega"],
+    album: "Neon & Lime (Single)",
+    durationMs: minutes("3:21"),
+    audioFeatures: features(0.79, 0.88, 0.86, 0.06),
+    cover: ["#84CC16", "#EC4899"],
+  },
+  {
+    id: "demo-track-22",
+    title: "Porch Light",
+    artistIds: ["demo-artist-quiet-orchard", "demo-artist-juniper-lane"],
+    album: "Porch Light (Single)",
+    durationMs: minutes("3:33"),
+    audioFeatures: features(0.33, 0.7, 0.47, 0.86),
+    cover: ["#EA580C", "#FEF9C3"],
+  },
+  {
+    id: "demo-track-23",
+    title: "Field Recording #4",
+    artistIds: ["demo-artist-lumen-drift"],
+    album: "Field Recordings",
+    durationMs: minutes("2:16"),
+    audioFeatures: null,
+    cover: ["#57534E", "#D6D3D1"],
+  },
+  {
+    id: "demo-track-24",
+    title: "Overdrive Heart",
+    artistIds: ["demo-artist-kestrel-avenue", "demo-artist-static-bloom"],
+    album: "Overpass",
+    durationMs: minutes("3:48"),
+    audioFeatures: features(0.83, 0.6, 0.7, 0.07),
+    cover: ["#BE123C", "#FB923C"],
+  },
+];
+
+// Different orders per range, so top track comparison has rises, falls and newcomers
+export const DEMO_TOP_TRACK_IDS: Record<TimeRange, string[]> = {
+  short_term: [
+    "demo-track-15", "demo-track-21", "demo-track-01", "demo-track-19", "demo-track-05",
+    "demo-track-09", "demo-track-11", "demo-track-24", "demo-track-13", "demo-track-17",
+    "demo-track-07", "demo-track-22", "demo-track-03", "demo-track-16", "demo-track-18",
+  ],
+  medium_term: [
+    "demo-track-01", "demo-track-05", "demo-track-15", "demo-track-11", "demo-track-03",
+    "demo-track-07", "demo-track-09", "demo-track-02", "demo-track-17", "demo-track-13",
+    "demo-track-20", "demo-track-06", "demo-track-12", "demo-track-04", "demo-track-10",
+    "demo-track-14", "demo-track-08", "demo-track-23",
+  ],
+  long_term: [
+    "demo-track-03", "demo-track-07", "demo-track-01", "demo-track-04", "demo-track-08",
+    "demo-track-11", "demo-track-14", "demo-track-02", "demo-track-10", "demo-track-12",
+    "demo-track-05", "demo-track-20", "demo-track-17", "demo-track-06", "demo-track-23",
+  ],
+};
+
+export const DEMO_LIKED_TRACK_IDS: string[] = [
+  "demo-track-21", "demo-track-01", "demo-track-13", "demo-track-17", "demo-track-05",
+  "demo-track-22", "demo-track-09", "demo-track-11", "demo-track-03", "demo-track-15",
+];
+
+// Plays relative to when demo mode loads, newest first
+export const DEMO_RECENTLY_PLAYED: Array<{ trackId: string; minutesAgo: number }> = [
+  { trackId: "demo-track-15", minutesAgo: 12 },
+  { trackId: "demo-track-21", minutesAgo: 17 },
+  { trackId: "demo-track-01", minutesAgo: 21 },
+  { trackId: "demo-track-15", minutesAgo: 26 },
+  { trackId: "demo-track-19", minutesAgo: 95 },
+  { trackId: "demo-track-20", minutesAgo: 98 },
+  { trackId: "demo-track-09", minutesAgo: 180 },
+  { trackId: "demo-track-10", minutesAgo: 186 },
+  { trackId: "demo-track-17", minutesAgo: 193 },
+  { trackId: "demo-track-13", minutesAgo: 60 * 22 },
+  { trackId: "demo-track-22", minutesAgo: 60 * 22 + 4 },
+  { trackId: "demo-track-03", minutesAgo: 60 * 22 + 8 },
+  { trackId: "demo-track-11", minutesAgo: 60 * 47 },
+  { trackId: "demo-track-05", minutesAgo: 60 * 47 + 4 },
+  { trackId: "demo-track-06", minutesAgo: 60 * 47 + 7 },
+];
+
+/** Square gradient cover as an inline SVG data URL. */
+export const demoCoverArt = ([from, to]: [string, string]): string =>
+  `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 300">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/>` +
+      `</linearGradient></defs><rect width="300" height="300" fill="url(#g)"/></svg>`
+  )}`;
@@ -4,10 +4,28 @@
  * Manages all application state in one place to avoid duplication
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { spotifyAuth } from '../services/spotifyAuth';
-import { spotifyApi } from '../services/spotifyApi';
-import type { Song, User } from '../types/music';
+import type { AccountProfile } from '../services/spotifyAuth';
+import { spotifyApi, SpotifyApiError } from '../services/spotifyApi';
+import { moodClassifier } from '../services/moodClassifier';
+import type { MoodClassifierConfig } from '../services/moodClassifier';
+import { listeningLog } from '../services/listeningLog';
+import { isDemoMode, exitDemoMode } from '../services/demoMode';
+import { compareTopTracks } from '../utils/topTrackComparison';
+import { mergeListeningHistory } from '../utils/listeningHistory';
+import type { HistoryEntry, Song, SongPage, TimeRange, TrackSource, User } from '../types/music';
+
+// Spotify's maximum page size for search results
+const SEARCH_PAGE_SIZE = 50;
+
+// Prefer a specific message when Spotify is throttling us
+const describeError = (error: unknown, fallback: string): string => {
+  if (error instanceof SpotifyApiError && error.status === 429) {
+    return 'Spotify is rate limiting requests right now. Please try again in a moment.';
+  }
+  return fallback;
+};
 
 interface AppState {
   // Authentication
@@ -17,12 +35,30 @@ interface AppState {
   // Songs and filtering
   songs: Song[];
   filteredSongs: Song[];
-  energyFilter: string;
+  moodFilter: string;
+  genreFilter: string[];
+  moodConfig: MoodClassifierConfig;
   searchQuery: string;
+
+  // Board source and top tracks view
+  source: TrackSource;
+  timeRange: TimeRange;
+  compareRange: TimeRange | null;
+
+  // Liked Songs membership by track ID
+  savedTrackIds: Record<string, boolean>;
+
+  // Every play for the History source; `songs` holds each track once
+  history: HistoryEntry[];
+
+  // Pagination for search results and Liked Songs
+  searchTotal: number;
+  nextOffset: number | null;
   
   // Loading states
   isInitialLoading: boolean;
   isLoadingSongs: boolean;
+  isLoadingMore: boolean;
   
   // Error handling
   error: string | null;
@@ -34,13 +70,47 @@ export const useAppState = () => {
     user: null,
     songs: [],
     filteredSongs: [],
-    energyFilter: 'all',
+    moodFilter: 'all',
+    genreFilter: [],
+    moodConfig: moodClassifier.getConfig(),
     searchQuery: '',
+    source: 'top',
+    timeRange: 'medium_term',
+    compareRange: null,
+    savedTrackIds: {},
+    history: [],
+    searchTotal: 0,
+    nextOffset: null,
     isInitialLoading: true,
     isLoadingSongs: false,
+    isLoadingMore: false,
     error: null,
   });
 
+  // Mirrors the board view so loaders called from stable callbacks see the latest selection
+  const boardViewRef = useRef<{
+    source: TrackSource;
+    timeRange: TimeRange;
+    compareRange: TimeRange | null;
+  }>({
+    source: 'top',
+    timeRange: 'medium_term',
+    compareRange: null,
+  });
+
+  // Every account signed in on this browser, for the account switcher
+  const [accounts, setAccounts] = useState<AccountProfile[]>(() => spotifyAuth.getAccounts());
+
+  // Read by the auth subscription, which outlives any single render
+  const isAuthenticatedRef = useRef(state.isAuthenticated);
+  isAuthenticatedRef.current = state.isAuthenticated;
+  // Account the loaded user and songs belong to
+  const loadedAccountRef = useRef<string | null>(null);
+  // Bumped when the session resets; loads started before that drop their results
+  const sessionRef = useRef(0);
+  // Bumped by every load that replaces the board, so only the latest one lands
+  const boardLoadRef = useRef(0);
+
   // Initialize app
   useEffect(() => {
     initializeApp();
@@ -48,12 +118,24 @@ export const useAppState = () => {
 
   // Filter songs when songs or filter changes
   useEffect(() => {
-    const filtered = state.energyFilter === 'all' 
-      ? state.songs 
-      : state.songs.filter(song => song.energy === state.energyFilter);
+    const filtered = state.songs.filter(song =>
+      (state.moodFilter === 'all' || song.mood === state.moodFilter) &&
+      (state.genreFilter.length === 0 || song.genres.some(genre => state.genreFilter.includes(genre)))
+    );
     
     setState(prev => ({ ...prev, filteredSongs: filtered }));
-  }, [state.songs, state.energyFilter]);
+  }, [state.songs, state.moodFilter, state.genreFilter]);
+
+  // Genres present in the loaded songs, most common first
+  const availableGenres = useMemo(() => {
+    const counts = new Map<string, number>();
+    state.songs.forEach(song => {
+      song.genres.forEach(genre => counts.set(genre, (counts.get(genre) ?? 0) + 1));
+    });
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([genre]) => genre);
+  }, [state.songs]);
 
   const initializeApp = async () => {
     try {
@@ -63,11 +145,12 @@ export const useAppState = () => {
         return;
       }
 
-      const authenticated = spotifyAuth.isAuthenticated();
+      // Demo mode needs no login; it runs on the bundled catalog
+      const authenticated = isDemoMode() || spotifyAuth.isAuthenticated();
       
       if (authenticated) {
         setState(prev => ({ ...prev, isAuthenticated: true }));
-        await Promise.all([loadUserData(), loadUserTopTracks()]);
+        await Promise.all([loadUserData(), loadCurrentSource()]);
       }
     } catch (error) {
       console.error('Error initializing app:', error);
@@ -82,71 +165,331 @@ export const useAppState = () => {
   };
 
   const loadUserData = async () => {
+    const session = sessionRef.current;
     try {
       const userData = await spotifyApi.getCurrentUser();
+      if (session !== sessionRef.current) return;
       const user: User = {
         id: userData.id,
         displayName: userData.display_name || userData.id,
         email: userData.email,
         profileImage: userData.images?.[0]?.url,
+        product: userData.product ?? null,
       };
+      loadedAccountRef.current = user.id;
+      if (!isDemoMode()) {
+        spotifyAuth.updateProfile({ id: user.id, displayName: user.displayName, profileImage: user.profileImage });
+      }
       setState(prev => ({ ...prev, user }));
     } catch (error) {
+      if (session !== sessionRef.current) return;
       console.error('Error loading user data:', error);
       setState(prev => ({ ...prev, error: 'Failed to load user data' }));
     }
   };
 
-  const loadUserTopTracks = async () => {
+  const loadSavedStatus = useCallback(async (songs: Song[]) => {
+    // Hearts stay unfilled until the user grants access to their library
+    if (!isDemoMode() && !spotifyAuth.hasCapability('likedSongs')) return;
+    const session = sessionRef.current;
+    const saved = await spotifyApi.checkSavedTracks(songs.map(song => song.id));
+    if (session !== sessionRef.current) return;
+    setState(prev => ({
+      ...prev,
+      savedTrackIds: { ...prev.savedTrackIds, ...Object.fromEntries(saved) },
+    }));
+  }, []);
+
+  const loadUserTopTracks = useCallback(async () => {
+    const load = ++boardLoadRef.current;
     setState(prev => ({ ...prev, isLoadingSongs: true, error: null }));
     try {
-      const tracks = await spotifyApi.getUserTopTracks(50);
+      const { timeRange, compareRange } = boardViewRef.current;
+      const [current, baseline] = await Promise.all([
+        spotifyApi.getUserTopTracks(50, timeRange),
+        compareRange && compareRange !== timeRange
+          ? spotifyApi.getUserTopTracks(50, compareRange)
+          : Promise.resolve(null),
+      ]);
+      if (load !== boardLoadRef.current) return;
+      const tracks = baseline ? compareTopTracks(current, baseline) : current;
       setState(prev => ({ 
         ...prev, 
         songs: tracks,
-        searchQuery: '' // Clear search when loading top tracks
+        searchQuery: '', // Clear search when loading top tracks
+        searchTotal: 0,
+        nextOffset: null,
       }));
+      loadSavedStatus(tracks);
     } catch (error) {
+      if (load !== boardLoadRef.current) return;
       console.error('Error loading top tracks:', error);
       setState(prev => ({ 
         ...prev, 
-        error: 'Failed to load your top tracks',
+        error: describeError(error, 'Failed to load your top tracks'),
         songs: [] 
       }));
     } finally {
-      setState(prev => ({ ...prev, isLoadingSongs: false }));
+      if (load === boardLoadRef.current) {
+        setState(prev => ({ ...prev, isLoadingSongs: false }));
+      }
     }
-  };
+  }, [loadSavedStatus]);
+
+  const loadLikedSongs = useCallback(async () => {
+    const load = ++boardLoadRef.current;
+    setState(prev => ({ ...prev, isLoadingSongs: true, error: null }));
+    try {
+      const page = await spotifyApi.getSavedTracks(SEARCH_PAGE_SIZE);
+      if (load !== boardLoadRef.current) return;
+      setState(prev => ({
+        ...prev,
+        songs: page.songs,
+        searchQuery: '',
+        searchTotal: 0,
+        nextOffset: page.nextOffset,
+        savedTrackIds: {
+          ...prev.savedTrackIds,
+          ...Object.fromEntries(page.songs.map(song => [song.id, true])),
+        },
+      }));
+    } catch (error) {
+      if (load !== boardLoadRef.current) return;
+      console.error('Error loading liked songs:', error);
+      setState(prev => ({
+        ...prev,
+        error: describeError(error, 'Failed to load your liked songs'),
+        songs: []
+      }));
+    } finally {
+      if (load === boardLoadRef.current) {
+        setState(prev => ({ ...prev, isLoadingSongs: false }));
+      }
+    }
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    const load = ++boardLoadRef.current;
+    setState(prev => ({ ...prev, isLoadingSongs: true, error: null }));
+    try {
+      const local = listeningLog.getEntries();
+      const recent = await spotifyApi.getRecentlyPlayed();
+
+      // Local plays can include tracks that fell off Spotify's short list
+      const songsById = new Map(recent.map(({ song }) => [song.id, song]));
+      const missingIds = local.map(entry => entry.trackId).filter(id => !songsById.has(id));
+      if (missingIds.length > 0) {
+        const extra = await spotifyApi.getTracks(missingIds);
+        extra.forEach(song => songsById.set(song.id, song));
+      }
+
+      if (load !== boardLoadRef.current) return;
+      const history = mergeListeningHistory(recent, local, songsById);
+      const songs = [...new Map(history.map(entry => [entry.song.id, entry.song])).values()];
+      setState(prev => ({
+        ...prev,
+        history,
+        songs,
+        searchQuery: '',
+        searchTotal: 0,
+        nextOffset: null,
+      }));
+      loadSavedStatus(songs);
+    } catch (error) {
+      if (load !== boardLoadRef.current) return;
+      console.error('Error loading listening history:', error);
+      setState(prev => ({
+        ...prev,
+        error: describeError(error, 'Failed to load your listening history'),
+        history: [],
+        songs: []
+      }));
+    } finally {
+      if (load === boardLoadRef.current) {
+        setState(prev => ({ ...prev, isLoadingSongs: false }));
+      }
+    }
+  }, [loadSavedStatus]);
+
+  const loadCurrentSource = useCallback(() => {
+    switch (boardViewRef.current.source) {
+      case 'liked':
+        return loadLikedSongs();
+      case 'history':
+        return loadHistory();
+      default:
+        return loadUserTopTracks();
+    }
+  }, [loadLikedSongs, loadHistory, loadUserTopTracks]);
 
   const searchTracks = useCallback(async (query: string) => {
     if (!query.trim()) {
-      loadUserTopTracks();
+      loadCurrentSource();
       return;
     }
 
-    setState(prev => ({ ...prev, isLoadingSongs: true, error: null, searchQuery: query }));
+    const load = ++boardLoadRef.current;
+    setState(prev => ({
+      ...prev,
+      isLoadingSongs: true,
+      error: null,
+      searchQuery: query,
+      searchTotal: 0,
+      nextOffset: null,
+    }));
     try {
-      const tracks = await spotifyApi.searchTracks(query, 50);
-      setState(prev => ({ ...prev, songs: tracks }));
+      const page = await spotifyApi.searchTracks(query, SEARCH_PAGE_SIZE);
+      if (load !== boardLoadRef.current) return;
+      setState(prev => ({
+        ...prev,
+        songs: page.songs,
+        searchTotal: page.total,
+        nextOffset: page.nextOffset,
+      }));
+      loadSavedStatus(page.songs);
     } catch (error) {
+      if (load !== boardLoadRef.current) return;
       console.error('Error searching tracks:', error);
       setState(prev => ({ 
         ...prev, 
-        error: 'Failed to search tracks',
+        error: describeError(error, 'Failed to search tracks'),
         songs: [] 
       }));
     } finally {
-      setState(prev => ({ ...prev, isLoadingSongs: false }));
+      if (load === boardLoadRef.current) {
+        setState(prev => ({ ...prev, isLoadingSongs: false }));
+      }
+    }
+  }, [loadCurrentSource, loadSavedStatus]);
+
+  const loadMoreTracks = useCallback(async () => {
+    const searchQuery = state.searchQuery;
+    const nextOffset = state.nextOffset;
+    const isLikedSource = !searchQuery && state.source === 'liked';
+    if (nextOffset === null || state.isLoadingSongs || state.isLoadingMore) {
+      return;
+    }
+    if (!searchQuery && !isLikedSource) {
+      return;
     }
-  }, []);
+
+    const session = sessionRef.current;
+    // Pages belong to the board they were requested for
+    const load = boardLoadRef.current;
+    setState(prev => ({ ...prev, isLoadingMore: true }));
+    try {
+      const page: SongPage = isLikedSource
+        ? await spotifyApi.getSavedTracks(SEARCH_PAGE_SIZE, nextOffset)
+        : await spotifyApi.searchTracks(searchQuery, SEARCH_PAGE_SIZE, nextOffset);
+      if (load !== boardLoadRef.current) return;
+      setState(prev => {
+        // Ignore pages that arrive after the user switched to a different search or source
+        if (prev.searchQuery !== searchQuery || prev.source !== state.source) return prev;
+
+        // Spotify occasionally repeats a track across page boundaries
+        const seen = new Set(prev.songs.map(song => song.id));
+        const newSongs = page.songs.filter(song => !seen.has(song.id));
+
+        return {
+          ...prev,
+          songs: [...prev.songs, ...newSongs],
+          searchTotal: isLikedSource ? prev.searchTotal : page.total,
+          nextOffset: page.nextOffset,
+          savedTrackIds: isLikedSource
+            ? { ...prev.savedTrackIds, ...Object.fromEntries(newSongs.map(song => [song.id, true])) }
+            : prev.savedTrackIds,
+        };
+      });
+      if (!isLikedSource) {
+        loadSavedStatus(page.songs);
+      }
+    } catch (error) {
+      if (load !== boardLoadRef.current) return;
+      console.error('Error loading more tracks:', error);
+      setState(prev => ({ ...prev, error: describeError(error, 'Failed to load more results') }));
+    } finally {
+      if (session === sessionRef.current) {
+        setState(prev => ({ ...prev, isLoadingMore: false }));
+      }
+    }
+  }, [state.searchQuery, state.source, state.nextOffset, state.isLoadingSongs, state.isLoadingMore, loadSavedStatus]);
 
   const clearSearch = useCallback(() => {
     setState(prev => ({ ...prev, searchQuery: '' }));
+    loadCurrentSource();
+  }, [loadCurrentSource]);
+
+  const setSource = useCallback((source: TrackSource) => {
+    boardViewRef.current = { ...boardViewRef.current, source };
+    setState(prev => ({ ...prev, source }));
+    loadCurrentSource();
+  }, [loadCurrentSource]);
+
+  const setTrackSaved = useCallback(async (song: Song, saved: boolean) => {
+    const session = sessionRef.current;
+    // Update optimistically and roll back if Spotify rejects the change
+    setState(prev => ({ ...prev, savedTrackIds: { ...prev.savedTrackIds, [song.id]: saved } }));
+    try {
+      if (saved) {
+        await spotifyApi.saveTracks([song.id]);
+      } else {
+        await spotifyApi.removeSavedTracks([song.id]);
+      }
+    } catch (error) {
+      console.error('Error updating liked songs:', error);
+      if (session !== sessionRef.current) return;
+      setState(prev => ({
+        ...prev,
+        savedTrackIds: { ...prev.savedTrackIds, [song.id]: !saved },
+        error: describeError(error, saved ? 'Failed to add to Liked Songs' : 'Failed to remove from Liked Songs'),
+      }));
+    }
+  }, []);
+
+  const toggleSavedTrack = useCallback((song: Song) => {
+    return setTrackSaved(song, !state.savedTrackIds[song.id]);
+  }, [state.savedTrackIds, setTrackSaved]);
+
+  const setTimeRange = useCallback((timeRange: TimeRange) => {
+    // Comparing a range against itself is meaningless, so drop the comparison
+    const compareRange = boardViewRef.current.compareRange === timeRange
+      ? null
+      : boardViewRef.current.compareRange;
+    boardViewRef.current = { source: 'top', timeRange, compareRange };
+    setState(prev => ({ ...prev, source: 'top', timeRange, compareRange }));
+    loadUserTopTracks();
+  }, [loadUserTopTracks]);
+
+  const setCompareRange = useCallback((compareRange: TimeRange | null) => {
+    boardViewRef.current = { ...boardViewRef.current, source: 'top', compareRange };
+    setState(prev => ({ ...prev, source: 'top', compareRange }));
     loadUserTopTracks();
+  }, [loadUserTopTracks]);
+
+  const setMoodFilter = useCallback((filter: string) => {
+    setState(prev => ({ ...prev, moodFilter: filter }));
   }, []);
 
-  const setEnergyFilter = useCallback((filter: string) => {
-    setState(prev => ({ ...prev, energyFilter: filter }));
+  const setGenreFilter = useCallback((genres: string[]) => {
+    setState(prev => ({ ...prev, genreFilter: genres }));
+  }, []);
+
+  const saveMoodConfig = useCallback((config: MoodClassifierConfig) => {
+    moodClassifier.saveConfig(config);
+    setState(prev => ({
+      ...prev,
+      moodConfig: config,
+      songs: prev.songs.map(song => moodClassifier.applyTo(song)),
+    }));
+  }, []);
+
+  const resetMoodConfig = useCallback(() => {
+    moodClassifier.resetConfig();
+    setState(prev => ({
+      ...prev,
+      moodConfig: moodClassifier.getConfig(),
+      songs: prev.songs.map(song => moodClassifier.applyTo(song)),
+    }));
   }, []);
 
   const shuffleSongs = useCallback(() => {
@@ -160,27 +503,91 @@ export const useAppState = () => {
     if (success) {
       setState(prev => ({ ...prev, isAuthenticated: true }));
       loadUserData();
-      loadUserTopTracks();
+      loadCurrentSource();
     } else {
       setState(prev => ({ ...prev, isAuthenticated: false, error: 'Authentication failed' }));
     }
-  }, []);
+  }, [loadCurrentSource]);
 
-  const handleLogout = useCallback(() => {
-    spotifyAuth.logout();
+  // Forgets everything loaded for the signed-in user
+  const resetSession = useCallback(() => {
+    sessionRef.current += 1;
+    boardLoadRef.current += 1;
+    loadedAccountRef.current = null;
+    boardViewRef.current = { source: 'top', timeRange: 'medium_term', compareRange: null };
     setState({
       isAuthenticated: false,
       user: null,
       songs: [],
       filteredSongs: [],
-      energyFilter: 'all',
+      moodFilter: 'all',
+      genreFilter: [],
+      moodConfig: moodClassifier.getConfig(),
       searchQuery: '',
+      source: 'top',
+      timeRange: 'medium_term',
+      compareRange: null,
+      savedTrackIds: {},
+      history: [],
+      searchTotal: 0,
+      nextOffset: null,
       isInitialLoading: false,
       isLoadingSongs: false,
+      isLoadingMore: false,
       error: null,
     });
   }, []);
 
+  const handleLogout = useCallback(() => {
+    // Leaving the demo keeps any signed-in accounts
+    if (isDemoMode()) {
+      exitDemoMode();
+      return;
+    }
+    spotifyAuth.logout();
+    resetSession();
+  }, [resetSession]);
+
+  /** Shows another signed-in account; the subscription below reloads everything. */
+  const switchAccount = useCallback((accountId: string) => {
+    spotifyAuth.switchAccount(accountId);
+  }, []);
+
+  /** Signs one account out of this browser and forgets its listening log. */
+  const removeAccount = useCallback((accountId: string) => {
+    listeningLog.clear(accountId);
+    spotifyAuth.removeAccount(accountId);
+  }, []);
+
+  const addAccount = useCallback(async () => {
+    try {
+      await spotifyAuth.initiateAuth('/');
+    } catch (error) {
+      console.error('Error adding account:', error);
+      setState(prev => ({ ...prev, error: 'Failed to start logging in to another account' }));
+    }
+  }, []);
+
+  // Follow sign-in, sign-out and account switches from any tab. Sign-in in
+  // this tab goes through handleAuthComplete. The demo doesn't use them.
+  useEffect(() => {
+    if (isDemoMode()) return;
+
+    return spotifyAuth.subscribe(({ state: authState, origin }) => {
+      setAccounts(authState.accounts);
+
+      if (!authState.isAuthenticated) {
+        resetSession();
+      } else if (loadedAccountRef.current && authState.accountId !== loadedAccountRef.current) {
+        // Start over for the new account, without passing through the login screen
+        resetSession();
+        handleAuthComplete(true);
+      } else if (origin === 'other-tab' && !isAuthenticatedRef.current) {
+        handleAuthComplete(true);
+      }
+    });
+  }, [resetSession, handleAuthComplete]);
+
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
   }, []);
@@ -188,14 +595,28 @@ export const useAppState = () => {
   return {
     // State
     ...state,
+    accounts,
+    availableGenres,
     
     // Actions
     searchTracks,
+    loadMoreTracks,
     clearSearch,
-    setEnergyFilter,
+    setSource,
+    setTrackSaved,
+    toggleSavedTrack,
+    setMoodFilter,
+    setGenreFilter,
+    saveMoodConfig,
+    resetMoodConfig,
+    setTimeRange,
+    setCompareRange,
     shuffleSongs,
     handleAuthComplete,
     handleLogout,
+    switchAccount,
+    removeAccount,
+    addAccount,
     clearError,
     refreshTopTracks: loadUserTopTracks,
   };
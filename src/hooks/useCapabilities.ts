@@ -0,0 +1,57 @@
+/**
+ * Capabilities Hook
+ *
+ * Tracks which features the granted Spotify scopes allow, and asks for the
+ * missing ones when the user reaches for a feature that needs them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { spotifyAuth, getMissingScopes } from '../services/spotifyAuth';
+import { isDemoMode } from '../services/demoMode';
+import type { Capability } from '../config/spotify';
+import type { Song, TrackSource } from '../types/music';
+
+/** What the user was doing when consent was requested, replayed on return. */
+export type ResumeAction =
+  | { type: 'set-source'; source: TrackSource }
+  | { type: 'save-playlist' }
+  | { type: 'save-track'; song: Song };
+
+export const useCapabilities = () => {
+  const [grantedScope, setGrantedScope] = useState(() => spotifyAuth.getAuthState().scope);
+
+  useEffect(() => {
+    return spotifyAuth.subscribe(({ state }) => setGrantedScope(state.scope));
+  }, []);
+
+  // The demo catalog backs every feature without any scopes
+  const can = useCallback(
+    (capability: Capability) => isDemoMode() || getMissingScopes(grantedScope, capability).length === 0,
+    [grantedScope]
+  );
+
+  /** Sends the user to Spotify to grant `capability`, then resumes `action`. */
+  const requestAccess = useCallback(async (capability: Capability, action?: ResumeAction) => {
+    try {
+      await spotifyAuth.requestCapability(capability, action && JSON.stringify(action));
+    } catch (error) {
+      console.error('Error requesting access:', error);
+    }
+  }, []);
+
+  const takeResumeAction = useCallback((): ResumeAction | null => {
+    const stored = spotifyAuth.takeResumeAction();
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error parsing resume action:', error);
+      return null;
+    }
+  }, []);
+
+  return {
+    can,
+    requestAccess,
+    takeResumeAction,
+  };
+};
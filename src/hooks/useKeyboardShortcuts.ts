@@ -0,0 +1,92 @@
+/**
+ * Keyboard Shortcuts Hook
+ *
+ * Global playback shortcuts. Keys typed into form fields are left alone so
+ * searching and editing never trigger playback.
+ */
+
+import { useEffect, useRef } from 'react';
+
+const SEEK_STEP_MS = 5000;
+const VOLUME_STEP = 0.05;
+
+/** Listed in the help overlay; keep in sync with the handler below. */
+export const KEYBOARD_SHORTCUTS: Array<{ keys: string[]; description: string }> = [
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: `Seek back / forward ${SEEK_STEP_MS / 1000} seconds` },
+  { keys: ['↑', '↓'], description: 'Volume up / down' },
+  { keys: ['/'], description: 'Search' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+interface UseKeyboardShortcutsOptions {
+  enabled: boolean;
+  positionMs: number;
+  volume: number;
+  onTogglePlay: () => void;
+  onSeek: (positionMs: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onFocusSearch: () => void;
+  onToggleHelp: () => void;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const useKeyboardShortcuts = (options: UseKeyboardShortcutsOptions) => {
+  // The listener is added once and reads the latest values from here
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const {
+        enabled,
+        positionMs,
+        volume,
+        onTogglePlay,
+        onSeek,
+        onVolumeChange,
+        onFocusSearch,
+        onToggleHelp,
+      } = optionsRef.current;
+
+      if (!enabled || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+
+      switch (e.key) {
+        case ' ':
+          // Buttons already toggle themselves on space
+          if (e.target instanceof HTMLButtonElement) return;
+          onTogglePlay();
+          break;
+        case 'ArrowLeft':
+          onSeek(Math.max(0, positionMs - SEEK_STEP_MS));
+          break;
+        case 'ArrowRight':
+          onSeek(positionMs + SEEK_STEP_MS);
+          break;
+        case 'ArrowUp':
+          onVolumeChange(Math.min(1, volume + VOLUME_STEP));
+          break;
+        case 'ArrowDown':
+          onVolumeChange(Math.max(0, volume - VOLUME_STEP));
+          break;
+        case '/':
+          onFocusSearch();
+          break;
+        case '?':
+          onToggleHelp();
+          break;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,102 @@
+/**
+ * Listening Log Hook
+ *
+ * Follows player state changes and writes one listening log entry per track
+ * played, once playback moves on to another track or stops.
+ */
+
+import { useEffect, useRef } from 'react';
+import { listeningLog } from '../services/listeningLog';
+import type { SpotifyPlayerState } from '../types/music';
+
+// Quick clicks through tracks aren't worth logging
+const MIN_LOGGED_PLAY_MS = 3000;
+// Ending this close to the end still counts as a full play
+const SKIP_TOLERANCE_MS = 5000;
+
+interface CurrentPlay {
+  // Account that was active when the play started
+  accountId: string | null;
+  trackId: string;
+  startedAt: number;
+  durationMs: number;
+  playedMs: number;
+  // Last reported position, when it was reported, and whether it was advancing
+  position: number;
+  at: number;
+  paused: boolean;
+}
+
+/** Credits the time played since the last report. */
+const advance = (play: CurrentPlay, now: number): CurrentPlay => {
+  if (play.paused) return { ...play, at: now };
+  const elapsed = now - play.at;
+  return { ...play, playedMs: play.playedMs + elapsed, position: play.position + elapsed, at: now };
+};
+
+const finish = (play: CurrentPlay) => {
+  const final = advance(play, Date.now());
+  if (!final.accountId || final.playedMs < MIN_LOGGED_PLAY_MS) return;
+
+  listeningLog.record(final.accountId, {
+    trackId: final.trackId,
+    startedAt: final.startedAt,
+    playedMs: Math.round(final.playedMs),
+    durationMs: final.durationMs,
+    skipped: final.position < final.durationMs - SKIP_TOLERANCE_MS,
+  });
+};
+
+export const useListeningLog = (playerState: SpotifyPlayerState | null) => {
+  const currentRef = useRef<CurrentPlay | null>(null);
+
+  useEffect(() => {
+    const now = Date.now();
+    const current = currentRef.current;
+    const trackId = playerState?.track_window.current_track.id || null;
+    const accountId = listeningLog.getAccountId();
+
+    // A switch to another account ends the play even if the track carries on
+    if (current && current.trackId === trackId && current.accountId === accountId && playerState) {
+      currentRef.current = {
+        ...advance(current, now),
+        position: playerState.position,
+        paused: playerState.paused,
+      };
+      return;
+    }
+
+    if (current) {
+      finish(current);
+    }
+
+    currentRef.current = playerState && trackId
+      ? {
+          accountId,
+          trackId,
+          startedAt: now - playerState.position,
+          durationMs: playerState.duration,
+          playedMs: 0,
+          position: playerState.position,
+          at: now,
+          paused: playerState.paused,
+        }
+      : null;
+  }, [playerState]);
+
+  // Don't lose the track that's playing when the tab closes
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (currentRef.current) {
+        finish(currentRef.current);
+        currentRef.current = null;
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+    };
+  }, []);
+};
@@ -0,0 +1,130 @@
+/**
+ * Media Session Hook
+ *
+ * Publishes the current track to the browser's Media Session so the OS
+ * media overlay shows it, and routes hardware media keys back to the player.
+ * This is what makes media keys work while the board sits in a background tab.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { SpotifyPlayerState } from '../types/music';
+
+// Used when the OS asks to skip without saying how far
+const DEFAULT_SKIP_OFFSET_MS = 10000;
+
+type CurrentTrack = SpotifyPlayerState['track_window']['current_track'];
+
+interface UseMediaSessionOptions {
+  track: CurrentTrack | null;
+  isPlaying: boolean;
+  positionMs: number;
+  durationMs: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+}
+
+const toArtwork = (images: CurrentTrack['album']['images']): MediaImage[] =>
+  images.map(image => ({
+    src: image.url,
+    ...(image.width && image.height ? { sizes: `${image.width}x${image.height}` } : {}),
+  }));
+
+const getSkipOffset = (details: MediaSessionActionDetails) =>
+  details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SKIP_OFFSET_MS;
+
+export const useMediaSession = ({
+  track,
+  isPlaying,
+  positionMs,
+  durationMs,
+  onPlay,
+  onPause,
+  onSeek,
+  onNext,
+  onPrevious,
+}: UseMediaSessionOptions) => {
+  const isSupported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+  // Effects below run on specific changes and read everything else from here
+  const latestRef = useRef({ track, positionMs, onPlay, onPause, onSeek, onNext, onPrevious });
+  latestRef.current = { track, positionMs, onPlay, onPause, onSeek, onNext, onPrevious };
+
+  const trackId = track?.id ?? null;
+
+  // Only a new track needs new metadata
+  useEffect(() => {
+    if (!isSupported) return;
+    const { track } = latestRef.current;
+    navigator.mediaSession.metadata = track
+      ? new MediaMetadata({
+          title: track.name,
+          artist: track.artists.map(artist => artist.name).join(', '),
+          album: track.album.name,
+          artwork: toArtwork(track.album.images),
+        })
+      : null;
+  }, [isSupported, trackId]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    navigator.mediaSession.playbackState = !trackId ? 'none' : isPlaying ? 'playing' : 'paused';
+  }, [isSupported, trackId, isPlaying]);
+
+  // Keeps the OS scrubber in step; only needed when playback starts, stops or jumps
+  useEffect(() => {
+    if (!isSupported || !trackId || durationMs <= 0) return;
+    try {
+      navigator.mediaSession.setPositionState({
+        duration: durationMs / 1000,
+        position: Math.min(latestRef.current.positionMs, durationMs) / 1000,
+        playbackRate: 1,
+      });
+    } catch (error) {
+      console.error('Error updating media session position:', error);
+    }
+  }, [isSupported, trackId, isPlaying, durationMs]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    const seekBy = (offsetMs: number) => {
+      const { onSeek, positionMs } = latestRef.current;
+      onSeek(Math.max(0, positionMs + offsetMs));
+    };
+
+    const handlers: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => latestRef.current.onPlay()],
+      ['pause', () => latestRef.current.onPause()],
+      ['nexttrack', () => latestRef.current.onNext()],
+      ['previoustrack', () => latestRef.current.onPrevious()],
+      ['seekto', details => {
+        if (details.seekTime !== undefined) {
+          latestRef.current.onSeek(details.seekTime * 1000);
+        }
+      }],
+      ['seekforward', details => seekBy(getSkipOffset(details))],
+      ['seekbackward', details => seekBy(-getSkipOffset(details))],
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Older browsers throw for actions they don't support
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // See above
+        }
+      }
+    };
+  }, [isSupported]);
+};
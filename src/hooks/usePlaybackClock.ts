@@ -0,0 +1,77 @@
+/**
+ * Playback Clock Hook
+ *
+ * The player only reports its position when its state changes, so this hook
+ * interpolates the position while playing and periodically resyncs it from
+ * the player to correct drift.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { SpotifyPlayerState } from '../types/music';
+
+const TICK_INTERVAL_MS = 250;
+const RESYNC_INTERVAL_MS = 5000;
+
+interface UsePlaybackClockOptions {
+  position: number;
+  duration: number;
+  isPlaying: boolean;
+  getCurrentState: () => Promise<SpotifyPlayerState | null>;
+}
+
+export const usePlaybackClock = ({
+  position,
+  duration,
+  isPlaying,
+  getCurrentState,
+}: UsePlaybackClockOptions) => {
+  const [positionMs, setPositionMs] = useState(position);
+  // Last known position and when we learned it
+  const anchorRef = useRef({ position, at: performance.now() });
+
+  const setAnchor = useCallback((newPosition: number) => {
+    anchorRef.current = { position: newPosition, at: performance.now() };
+    setPositionMs(newPosition);
+  }, []);
+
+  // Every player event carries an authoritative position
+  useEffect(() => {
+    setAnchor(position);
+  }, [position, isPlaying, setAnchor]);
+
+  // Advance the clock locally between events
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      const { position: anchor, at } = anchorRef.current;
+      setPositionMs(Math.min(duration, anchor + performance.now() - at));
+    }, TICK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, duration]);
+
+  // Correct drift against the player's own clock
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const state = await getCurrentState();
+        if (state && !state.paused) {
+          anchorRef.current = { position: state.position, at: performance.now() };
+        }
+      } catch (error) {
+        console.error('Error resyncing playback position:', error);
+      }
+    }, RESYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, getCurrentState]);
+
+  return {
+    positionMs,
+    // Moves the clock immediately after a seek instead of waiting for the player event
+    markSeek: setAnchor,
+  };
+};
@@ -0,0 +1,225 @@
+/**
+ * Playback Queue Hook
+ *
+ * Keeps the list of tracks being played so clicking a card plays the whole
+ * board from that card onwards. Added songs go into the player's own queue,
+ * which plays them after the current track without interrupting it, and are
+ * shown straight after it. Reordering the list means starting it again, so
+ * that keeps the current position and doesn't resume paused playback.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Song } from '../types/music';
+
+// Spotify rejects play requests with very long URI lists
+const MAX_QUEUE_LENGTH = 200;
+
+interface UsePlaybackQueueOptions {
+  currentTrackId: string | null;
+  // Interpolated, so restarting the list doesn't jump back to the last reported position
+  currentPosition: number;
+  isPaused: boolean;
+  playSongs: (songs: Song[], offset?: number, positionMs?: number, paused?: boolean) => Promise<void>;
+  enqueueSong: (song: Song) => Promise<void>;
+  skipTrack: () => void;
+}
+
+interface QueueState {
+  songs: Song[];
+  currentIndex: number;
+  // Songs right after the current one that wait in the player's queue
+  queuedCount: number;
+}
+
+/** Separates the songs in the player's queue from the list it plays. */
+const splitQueued = ({ songs, currentIndex, queuedCount }: QueueState) => ({
+  queued: songs.slice(currentIndex + 1, currentIndex + 1 + queuedCount),
+  context: [...songs.slice(0, currentIndex + 1), ...songs.slice(currentIndex + 1 + queuedCount)],
+});
+
+/** Puts queued songs straight after the current one, where the player plays them. */
+const withQueued = (context: Song[], currentIndex: number, queued: Song[]): QueueState => ({
+  songs: [...context.slice(0, currentIndex + 1), ...queued, ...context.slice(currentIndex + 1)],
+  currentIndex,
+  queuedCount: queued.length,
+});
+
+export const usePlaybackQueue = ({
+  currentTrackId,
+  currentPosition,
+  isPaused,
+  playSongs,
+  enqueueSong,
+  skipTrack,
+}: UsePlaybackQueueOptions) => {
+  const [state, setState] = useState<QueueState>({ songs: [], currentIndex: -1, queuedCount: 0 });
+  // Removed from the list but still in the player's queue, which can't be edited
+  const skippedIdsRef = useRef(new Set<string>());
+
+  // Callbacks below read the playback position from here instead of depending on it
+  const latestRef = useRef({ currentPosition, isPaused });
+  latestRef.current = { currentPosition, isPaused };
+
+  // Follow the player as it advances through the list and its queue on its own
+  useEffect(() => {
+    if (!currentTrackId) return;
+    const { songs, currentIndex, queuedCount } = state;
+    if (songs[currentIndex]?.id === currentTrackId) return;
+
+    if (skippedIdsRef.current.delete(currentTrackId)) {
+      skipTrack();
+      return;
+    }
+
+    const queuedIndex = songs.findIndex(
+      (song, i) => i > currentIndex && i <= currentIndex + queuedCount && song.id === currentTrackId
+    );
+    if (queuedIndex !== -1) {
+      // Songs queued before it have been used up as well
+      setState({
+        songs,
+        currentIndex: queuedIndex,
+        queuedCount: currentIndex + queuedCount - queuedIndex,
+      });
+      return;
+    }
+
+    // Moved within the list, and the player's queue still comes next
+    const { queued, context } = splitQueued(state);
+    const index = context.findIndex(song => song.id === currentTrackId);
+    if (index !== -1) {
+      setState(withQueued(context, index, queued));
+    }
+  }, [currentTrackId, state, skipTrack]);
+
+  /** Sends `context` to the player as the list to play; queued songs still come first. */
+  const startList = useCallback((
+    context: Song[],
+    index: number,
+    positionMs: number = 0,
+    paused: boolean = false
+  ) => {
+    const chosen = context[index];
+    const { queued } = splitQueued(state);
+    const queuedIds = new Set(queued.map(song => song.id));
+
+    // A queued song played now is skipped when the queue reaches it. Straight
+    // after itself that would look like a restart, so then it just plays twice.
+    if (queuedIds.has(chosen.id) && queued[0].id !== chosen.id) {
+      skippedIdsRef.current.add(chosen.id);
+    }
+
+    // Keep each track in the list once so the player position maps back to one index
+    const songs = context.filter((song, i) => i === index || !queuedIds.has(song.id));
+    const currentIndex = songs.indexOf(chosen);
+    setState(withQueued(songs, currentIndex, queued.filter(song => song.id !== chosen.id)));
+    return playSongs(songs, currentIndex, positionMs, paused);
+  }, [state, playSongs]);
+
+  /** Plays `songs` as the list, starting at `startIndex`. */
+  const playFromList = useCallback((songs: Song[], startIndex: number) => {
+    // Keep a window around the chosen track when the list is too long
+    const windowStart = Math.max(
+      0,
+      Math.min(startIndex - MAX_QUEUE_LENGTH / 2, songs.length - MAX_QUEUE_LENGTH)
+    );
+    const windowed = songs.slice(windowStart, windowStart + MAX_QUEUE_LENGTH);
+    return startList(windowed, startIndex - windowStart);
+  }, [startList]);
+
+  /** Adds `song` to the player's queue, after songs queued before it. */
+  const addToQueue = useCallback((song: Song) => {
+    const { songs, currentIndex, queuedCount } = state;
+
+    // Nothing is playing yet, so just start the song
+    if (currentIndex === -1) return startList([song], 0);
+
+    // Already playing or coming up
+    if (songs.slice(currentIndex).some(item => item.id === song.id)) return Promise.resolve();
+
+    const at = currentIndex + 1 + queuedCount;
+    setState({
+      songs: [...songs.slice(0, at), song, ...songs.slice(at)],
+      currentIndex,
+      queuedCount: queuedCount + 1,
+    });
+    return enqueueSong(song);
+  }, [state, startList, enqueueSong]);
+
+  /**
+   * Plays `song` once the current track ends. Songs already in the player's
+   * queue still come first, since Spotify has no way to reorder it.
+   */
+  const playNext = useCallback((song: Song) => {
+    const { currentIndex } = state;
+    if (currentIndex === -1) return startList([song], 0);
+
+    const { context } = splitQueued(state);
+    const laterIndex = context.findIndex((item, i) => i > currentIndex && item.id === song.id);
+    if (laterIndex === -1) return addToQueue(song);
+    if (laterIndex === currentIndex + 1) return Promise.resolve();
+
+    // Already further down the list, so move it up instead of playing it twice
+    const reordered = context.filter((_, i) => i !== laterIndex);
+    reordered.splice(currentIndex + 1, 0, song);
+    const { currentPosition, isPaused } = latestRef.current;
+    return startList(reordered, currentIndex, currentPosition, isPaused);
+  }, [state, startList, addToQueue]);
+
+  /** Removes an upcoming track; `index` is its position in the full queue. */
+  const removeFromQueue = useCallback((index: number) => {
+    const { songs, currentIndex, queuedCount } = state;
+    if (index <= currentIndex || index >= songs.length) return Promise.resolve();
+
+    if (index <= currentIndex + queuedCount) {
+      skippedIdsRef.current.add(songs[index].id);
+      setState({
+        songs: songs.filter((_, i) => i !== index),
+        currentIndex,
+        queuedCount: queuedCount - 1,
+      });
+      return Promise.resolve();
+    }
+
+    const { context } = splitQueued(state);
+    const { currentPosition, isPaused } = latestRef.current;
+    return startList(
+      context.filter((_, i) => i !== index - queuedCount),
+      currentIndex,
+      currentPosition,
+      isPaused
+    );
+  }, [state, startList]);
+
+  const jumpTo = useCallback((index: number) => {
+    const { songs, currentIndex, queuedCount } = state;
+    if (index < 0 || index >= songs.length) return Promise.resolve();
+
+    // Queued songs can only be reached by skipping the ones queued before them
+    if (index > currentIndex && index <= currentIndex + queuedCount) {
+      const passed = songs.slice(currentIndex + 1, index);
+      passed.forEach(song => skippedIdsRef.current.add(song.id));
+      setState({
+        songs: songs.filter(song => !passed.includes(song)),
+        currentIndex,
+        queuedCount: queuedCount - passed.length,
+      });
+      skipTrack();
+      return Promise.resolve();
+    }
+
+    const { context } = splitQueued(state);
+    return startList(context, index > currentIndex ? index - queuedCount : index);
+  }, [state, startList, skipTrack]);
+
+  return {
+    queue: state.songs,
+    currentIndex: state.currentIndex,
+    upcoming: state.songs.slice(state.currentIndex + 1),
+    playFromList,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    jumpTo,
+  };
+};
@@ -0,0 +1,164 @@
+/**
+ * Sleep Timer Hook
+ *
+ * Pauses playback after a set time or at the end of the current track,
+ * fading the volume out first. The timer lives in sessionStorage so it
+ * survives navigation and reloads within the tab.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const STORAGE_KEY = 'sleep_timer';
+const FADE_DURATION_MS = 10000;
+// The fade lowers the volume in a few steps, since each change can be a request to a remote device
+const FADE_STEPS = 10;
+const TICK_INTERVAL_MS = 1000;
+// Keeps the fade steps on time
+const FADE_TICK_INTERVAL_MS = 250;
+
+export type SleepTimer =
+  | { mode: 'duration'; endsAt: number }
+  // Stops when this track finishes
+  | { mode: 'end-of-track'; trackId: string };
+
+interface UseSleepTimerOptions {
+  trackId: string | null;
+  positionMs: number;
+  durationMs: number;
+  volume: number;
+  setOutputVolume: (volume: number) => void;
+  pause: () => void;
+}
+
+const loadTimer = (): SleepTimer | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const timer = JSON.parse(stored) as SleepTimer;
+    // Drop timers that ran out while the page was closed
+    return timer.mode === 'duration' && timer.endsAt <= Date.now() ? null : timer;
+  } catch (error) {
+    console.error('Error parsing sleep timer:', error);
+    return null;
+  }
+};
+
+export const useSleepTimer = ({
+  trackId,
+  positionMs,
+  durationMs,
+  volume,
+  setOutputVolume,
+  pause,
+}: UseSleepTimerOptions) => {
+  const [timer, setTimer] = useState<SleepTimer | null>(loadTimer);
+  const [now, setNow] = useState(() => Date.now());
+  // Fade step the output volume is lowered to, or null when not fading
+  const fadeStepRef = useRef<number | null>(null);
+  // Last position seen in the timed track, to notice it starting over on repeat
+  const lastPositionRef = useRef(0);
+
+  const latestRef = useRef({ volume, setOutputVolume, pause });
+  latestRef.current = { volume, setOutputVolume, pause };
+
+  useEffect(() => {
+    if (timer) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(timer));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }, [timer]);
+
+  const remainingMs = !timer
+    ? null
+    : timer.mode === 'duration'
+      ? Math.max(0, timer.endsAt - now)
+      : Math.max(0, durationMs - positionMs);
+
+  const isFadeWindow = remainingMs !== null && remainingMs <= FADE_DURATION_MS;
+
+  // Duration timers count down on the wall clock
+  useEffect(() => {
+    if (timer?.mode !== 'duration') return;
+    const interval = setInterval(
+      () => setNow(Date.now()),
+      isFadeWindow ? FADE_TICK_INTERVAL_MS : TICK_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [timer, isFadeWindow]);
+
+  const restoreVolume = useCallback(() => {
+    if (fadeStepRef.current !== null) {
+      fadeStepRef.current = null;
+      latestRef.current.setOutputVolume(latestRef.current.volume);
+    }
+  }, []);
+
+  const finish = useCallback(() => {
+    setTimer(null);
+    latestRef.current.pause();
+    // Leave the player at the normal level for next time
+    restoreVolume();
+  }, [restoreVolume]);
+
+  useEffect(() => {
+    if (!timer || remainingMs === null) return;
+
+    if (timer.mode === 'end-of-track') {
+      // Nothing to measure until the player reports a track again
+      if (!trackId) return;
+      // The track ended and the next one started before we caught it
+      if (trackId !== timer.trackId) {
+        finish();
+        return;
+      }
+
+      // Repeating the track starts it over instead of changing tracks
+      const lastPosition = lastPositionRef.current;
+      lastPositionRef.current = positionMs;
+      if (positionMs < lastPosition && durationMs - lastPosition <= FADE_DURATION_MS) {
+        finish();
+        return;
+      }
+    }
+
+    if (remainingMs <= 0) {
+      finish();
+    } else if (remainingMs <= FADE_DURATION_MS) {
+      const step = Math.ceil((remainingMs / FADE_DURATION_MS) * FADE_STEPS);
+      if (step !== fadeStepRef.current) {
+        fadeStepRef.current = step;
+        latestRef.current.setOutputVolume(latestRef.current.volume * (step / FADE_STEPS));
+      }
+    } else {
+      // Back out of the fade, e.g. after seeking back or a longer track started
+      restoreVolume();
+    }
+  }, [timer, remainingMs, trackId, positionMs, durationMs, finish, restoreVolume]);
+
+  /** Starts a timer for `minutes`, or until the current track ends. */
+  const startTimer = useCallback((minutes: number | 'end-of-track') => {
+    restoreVolume();
+    if (minutes === 'end-of-track') {
+      lastPositionRef.current = 0;
+      if (trackId) setTimer({ mode: 'end-of-track', trackId });
+    } else {
+      const start = Date.now();
+      setNow(start);
+      setTimer({ mode: 'duration', endsAt: start + minutes * 60 * 1000 });
+    }
+  }, [trackId, restoreVolume]);
+
+  const cancelTimer = useCallback(() => {
+    setTimer(null);
+    restoreVolume();
+  }, [restoreVolume]);
+
+  return {
+    timer,
+    remainingMs,
+    startTimer,
+    cancelTimer,
+  };
+};
@@ -0,0 +1,300 @@
+/**
+ * Spotify Player Hook
+ *
+ * Runs whichever playback backend suits the account: the Web Playback SDK
+ * for Premium, or preview clips otherwise. If the SDK can't start, it falls
+ * back to previews so the board stays playable. Demo mode always gets the
+ * simulated player. The volume and mute setting are kept here and persisted
+ * in localStorage.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SdkPlaybackBackend } from '../services/sdkPlaybackBackend';
+import { PreviewPlaybackBackend } from '../services/previewPlaybackBackend';
+import { DemoPlaybackBackend } from '../services/demoPlaybackBackend';
+import { isDemoMode } from '../services/demoMode';
+import type { PlaybackBackend, PlaybackBackendKind, PlayerStatus } from '../services/playbackBackend';
+import type { RepeatMode, Song, SpotifyPlayerState, User } from '../types/music';
+
+const VOLUME_STORAGE_KEY = 'player_volume';
+const DEFAULT_VOLUME = 0.7;
+
+interface VolumeSettings {
+  // Level to return to when unmuting; never 0
+  level: number;
+  muted: boolean;
+}
+
+const DEFAULT_VOLUME_SETTINGS: VolumeSettings = { level: DEFAULT_VOLUME, muted: false };
+
+const loadVolumeSettings = (): VolumeSettings => {
+  try {
+    const stored = localStorage.getItem(VOLUME_STORAGE_KEY);
+    if (!stored) return DEFAULT_VOLUME_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<VolumeSettings>;
+    const level = typeof parsed.level === 'number' && parsed.level > 0 && parsed.level <= 1
+      ? parsed.level
+      : DEFAULT_VOLUME;
+    return { level, muted: parsed.muted === true };
+  } catch (error) {
+    console.error('Error parsing stored volume:', error);
+    return DEFAULT_VOLUME_SETTINGS;
+  }
+};
+
+/** Turns a volume reported by a player back into settings, remembering the old level at 0. */
+const settingsForVolume = (volume: number, previous: VolumeSettings): VolumeSettings =>
+  volume > 0 ? { level: volume, muted: false } : { ...previous, muted: true };
+
+// Order the repeat button steps through
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: 'context',
+  context: 'track',
+  track: 'off',
+};
+
+/**
+ * Premium accounts can stream full tracks; unknown ones get to try. Either
+ * way the session needs the playback scopes, or the SDK can't authenticate.
+ */
+const getPreferredBackend = (user: User, canStream: boolean): PlaybackBackendKind => {
+  if (isDemoMode()) return 'demo';
+  return canStream && (user.product === null || user.product === 'premium') ? 'sdk' : 'preview';
+};
+
+const createBackend = (kind: PlaybackBackendKind, volume: number): PlaybackBackend => {
+  switch (kind) {
+    case 'sdk':
+      return new SdkPlaybackBackend(volume);
+    case 'preview':
+      return new PreviewPlaybackBackend(volume);
+    case 'demo':
+      return new DemoPlaybackBackend(volume);
+  }
+};
+
+export const useSpotifyPlayer = (user: User | null, canStream: boolean) => {
+  const backendRef = useRef<PlaybackBackend | null>(null);
+  const [playerState, setPlayerState] = useState<SpotifyPlayerState | null>(null);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [activeDeviceId, setActiveDeviceId] = useState<string>('');
+  const [status, setStatus] = useState<PlayerStatus>('idle');
+  // Why the player is reconnecting or failed
+  const [statusDetail, setStatusDetail] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  // Set once the SDK has failed so we don't keep retrying it
+  const [sdkFailed, setSdkFailed] = useState(false);
+  const [volumeSettings, setVolumeSettings] = useState(loadVolumeSettings);
+
+  const volume = volumeSettings.muted ? 0 : volumeSettings.level;
+  // Read when a backend is created, without recreating it on every change
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+
+  useEffect(() => {
+    localStorage.setItem(VOLUME_STORAGE_KEY, JSON.stringify(volumeSettings));
+  }, [volumeSettings]);
+
+  const preferredBackend = user ? getPreferredBackend(user, canStream) : null;
+  const backendKind = preferredBackend === 'sdk' && sdkFailed ? 'preview' : preferredBackend;
+
+  useEffect(() => {
+    if (!backendKind) return;
+
+    const backend = createBackend(backendKind, volumeRef.current);
+    backendRef.current = backend;
+
+    // The player is the source of truth, e.g. a remote device's own volume
+    const syncVolume = async () => {
+      try {
+        const reported = await backend.getVolume();
+        setVolumeSettings(prev => settingsForVolume(reported, prev));
+      } catch (error) {
+        console.error('Error reading player volume:', error);
+      }
+    };
+
+    const unsubscribe = backend.subscribe(event => {
+      switch (event.type) {
+        case 'status':
+          setStatus(event.status);
+          setStatusDetail(event.detail ?? '');
+          break;
+        case 'ready':
+          setDeviceId(event.deviceId);
+          syncVolume();
+          break;
+        case 'state':
+          setPlayerState(event.state);
+          break;
+        case 'device':
+          setActiveDeviceId(event.deviceId);
+          syncVolume();
+          break;
+        case 'error':
+          if (event.fatal && backend.kind === 'sdk') {
+            setSdkFailed(true);
+          } else {
+            setError(event.message);
+          }
+          break;
+      }
+    });
+
+    backend.connect();
+
+    return () => {
+      unsubscribe();
+      backend.disconnect();
+      backendRef.current = null;
+      setStatus('idle');
+      setStatusDetail('');
+      setPlayerState(null);
+      setDeviceId('');
+      setActiveDeviceId('');
+    };
+  }, [backendKind]);
+
+  const runPlaybackCommand = useCallback(async (
+    command: (backend: PlaybackBackend) => Promise<void>,
+    failure: string
+  ) => {
+    const backend = backendRef.current;
+    if (!backend) {
+      setError('Player not ready');
+      return;
+    }
+
+    try {
+      await command(backend);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(`${failure}: ${error instanceof Error ? error.message : error}`);
+    }
+  }, []);
+
+  /** Plays a list of songs as one context, starting at `offset`, or only loads it when `paused`. */
+  const playSongs = useCallback(
+    (songs: Song[], offset: number = 0, positionMs: number = 0, paused: boolean = false) =>
+      runPlaybackCommand(
+        backend => backend.play(songs, offset, positionMs, paused),
+        'Failed to play track'
+      ),
+    [runPlaybackCommand]
+  );
+
+  /** Adds a song to the player's queue without interrupting the current one. */
+  const enqueueSong = useCallback(
+    (song: Song) => runPlaybackCommand(backend => backend.enqueue(song), 'Failed to add to queue'),
+    [runPlaybackCommand]
+  );
+
+  const playTrack = useCallback((song: Song) => playSongs([song]), [playSongs]);
+
+  const pauseTrack = () => {
+    runPlaybackCommand(backend => backend.pause(), 'Failed to pause');
+  };
+
+  const resumeTrack = () => {
+    runPlaybackCommand(backend => backend.resume(), 'Failed to resume');
+  };
+
+  const seekTo = (position: number) => {
+    runPlaybackCommand(backend => backend.seek(position), 'Failed to seek');
+  };
+
+  const setVolume = (newVolume: number) => {
+    setVolumeSettings(prev => settingsForVolume(newVolume, prev));
+    runPlaybackCommand(backend => backend.setVolume(newVolume), 'Failed to set volume');
+  };
+
+  /** Changes what the player outputs without touching the saved volume, e.g. for fades. */
+  const setOutputVolume = useCallback((level: number) => {
+    runPlaybackCommand(backend => backend.setVolume(level), 'Failed to set volume');
+  }, [runPlaybackCommand]);
+
+  /** Mutes, or restores the level from before muting. */
+  const toggleMute = () => {
+    const newVolume = volumeSettings.muted ? volumeSettings.level : 0;
+    setVolumeSettings(prev => ({ ...prev, muted: !prev.muted }));
+    runPlaybackCommand(backend => backend.setVolume(newVolume), 'Failed to set volume');
+  };
+
+  const toggleShuffle = () => {
+    const shuffle = !(playerState?.shuffle ?? false);
+    runPlaybackCommand(backend => backend.setShuffle(shuffle), 'Failed to change shuffle');
+  };
+
+  /** Steps through off, repeat all and repeat one. */
+  const cycleRepeatMode = () => {
+    const mode = NEXT_REPEAT_MODE[playerState?.repeat_mode ?? 'off'];
+    runPlaybackCommand(backend => backend.setRepeatMode(mode), 'Failed to change repeat mode');
+  };
+
+  const nextTrack = useCallback(() => {
+    runPlaybackCommand(backend => backend.nextTrack(), 'Failed to skip track');
+  }, [runPlaybackCommand]);
+
+  const previousTrack = () => {
+    runPlaybackCommand(backend => backend.previousTrack(), 'Failed to go back');
+  };
+
+  const getCurrentState = useCallback(
+    async () => (await backendRef.current?.getCurrentState()) ?? null,
+    []
+  );
+
+  /** Moves playback to another Spotify Connect device, or back to this browser. */
+  const transferPlayback = useCallback(async (targetDeviceId: string) => {
+    const backend = backendRef.current;
+    if (!(backend instanceof SdkPlaybackBackend)) return;
+
+    try {
+      await backend.transferPlayback(targetDeviceId);
+    } catch (error) {
+      console.error('Error transferring playback:', error);
+      setError(`Failed to transfer playback: ${error}`);
+    }
+  }, []);
+
+  /** Starts the connection over after the player gave up. */
+  const retryConnection = useCallback(() => {
+    backendRef.current?.reconnect().catch(error => {
+      console.error('Error reconnecting player:', error);
+    });
+  }, []);
+
+  const clearError = useCallback(() => setError(''), []);
+
+  return {
+    playerState,
+    backendKind,
+    deviceId,
+    activeDeviceId,
+    isRemote: Boolean(activeDeviceId) && activeDeviceId !== deviceId,
+    status,
+    statusDetail,
+    isReady: status === 'ready',
+    error,
+    volume,
+    isMuted: volumeSettings.muted,
+    playTrack,
+    playSongs,
+    enqueueSong,
+    pauseTrack,
+    resumeTrack,
+    seekTo,
+    setVolume,
+    setOutputVolume,
+    toggleMute,
+    toggleShuffle,
+    cycleRepeatMode,
+    nextTrack,
+    previousTrack,
+    getCurrentState,
+    transferPlayback,
+    retryConnection,
+    clearError,
+  };
+};
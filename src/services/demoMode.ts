@@ -0,0 +1,29 @@
+/**
+ * Demo Mode
+ *
+ * Runs the app on the bundled fixture catalog instead of a Spotify account,
+ * for offline development, UI work and demos. The flag lives in
+ * sessionStorage, so it only applies to the tab that turned it on and
+ * never touches signed-in accounts. Services pick their implementation when
+ * they load, so switching in or out reloads the page.
+ */
+
+const STORAGE_KEY = "demo_mode";
+
+export const isDemoMode = (): boolean => {
+  try {
+    return sessionStorage.getItem(STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+};
+
+export const enterDemoMode = (): void => {
+  sessionStorage.setItem(STORAGE_KEY, "true");
+  window.location.assign("/");
+};
+
+export const exitDemoMode = (): void => {
+  sessionStorage.removeItem(STORAGE_KEY);
+  window.location.assign("/");
+};
@@ -0,0 +1,206 @@
+/**
+ * Demo Playback Backend
+ *
+ * Pretends to play full tracks for demo mode. There is no audio; a clock
+ * advances the position, tracks end after their real duration and the list
+ * moves on in the same order as the preview player.
+ */
+
+import { PlaybackEmitter } from "./playbackBackend";
+import { PlaybackOrder } from "./playbackOrder";
+import type { PlaybackBackend, PlaybackListener } from "./playbackBackend";
+import type { RepeatMode, Song, SpotifyPlayerState } from "../types/music";
+
+// Past this point "previous" restarts the track instead of going back
+const RESTART_THRESHOLD_MS = 3000;
+
+export const DEMO_DEVICE_ID = "demo";
+
+export class DemoPlaybackBackend implements PlaybackBackend {
+  readonly kind = "demo" as const;
+
+  private emitter = new PlaybackEmitter();
+  private order = new PlaybackOrder();
+  private paused = true;
+  private volume: number;
+  // Position at the last play, pause or seek, and when that happened
+  private anchor = { position: 0, at: 0 };
+  private endTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(initialVolume: number) {
+    this.volume = initialVolume;
+  }
+
+  subscribe(listener: PlaybackListener): () => void {
+    return this.emitter.subscribe(listener);
+  }
+
+  async connect(): Promise<void> {
+    this.emitter.emit({ type: "status", status: "ready" });
+    this.emitter.emit({ type: "ready", deviceId: DEMO_DEVICE_ID });
+    this.emitter.emit({ type: "device", deviceId: DEMO_DEVICE_ID });
+  }
+
+  async reconnect(): Promise<void> {
+    await this.connect();
+  }
+
+  disconnect(): void {
+    clearTimeout(this.endTimer);
+    this.paused = true;
+  }
+
+  async play(
+    songs: Song[],
+    offset: number,
+    positionMs: number,
+    paused: boolean = false
+  ): Promise<void> {
+    this.order.load(songs);
+    this.order.moveTo(offset);
+    this.begin(positionMs, paused);
+  }
+
+  async enqueue(song: Song): Promise<void> {
+    this.order.enqueue(song);
+  }
+
+  async pause(): Promise<void> {
+    if (this.paused) return;
+    this.setAnchor(this.getPosition());
+    this.paused = true;
+    clearTimeout(this.endTimer);
+    this.emitState();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.order.current || !this.paused) return;
+    this.paused = false;
+    this.setAnchor(this.anchor.position);
+    this.scheduleEnd();
+    this.emitState();
+  }
+
+  async seek(positionMs: number): Promise<void> {
+    if (!this.order.current) return;
+    this.setAnchor(Math.min(Math.max(0, positionMs), this.getDuration()));
+    if (!this.paused) this.scheduleEnd();
+    this.emitState();
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    this.volume = Math.min(1, Math.max(0, volume));
+  }
+
+  async getVolume(): Promise<number> {
+    return this.volume;
+  }
+
+  async setShuffle(shuffle: boolean): Promise<void> {
+    this.order.shuffle = shuffle;
+    this.emitState();
+  }
+
+  async setRepeatMode(mode: RepeatMode): Promise<void> {
+    this.order.repeatMode = mode;
+    this.emitState();
+  }
+
+  async nextTrack(): Promise<void> {
+    if (!this.playNext()) {
+      await this.seek(this.getDuration());
+    }
+  }
+
+  async previousTrack(): Promise<void> {
+    if (this.getPosition() > RESTART_THRESHOLD_MS || this.order.currentIndex <= 0) {
+      await this.seek(0);
+      return;
+    }
+    this.order.moveTo(this.order.currentIndex - 1);
+    this.begin(0);
+  }
+
+  async getCurrentState(): Promise<SpotifyPlayerState | null> {
+    return this.readState();
+  }
+
+  /** Plays the current song from `positionMs`, or holds it there when `paused`. */
+  private begin(positionMs: number, paused: boolean = false): void {
+    this.paused = paused;
+    this.setAnchor(positionMs);
+    if (paused) {
+      clearTimeout(this.endTimer);
+    } else {
+      this.scheduleEnd();
+    }
+    this.emitState();
+  }
+
+  private playNext(): boolean {
+    if (!this.order.advance(() => true)) return false;
+    this.begin(0);
+    return true;
+  }
+
+  private scheduleEnd(): void {
+    clearTimeout(this.endTimer);
+    this.endTimer = setTimeout(this.handleEnded, this.getDuration() - this.getPosition());
+  }
+
+  private handleEnded = () => {
+    if (this.order.repeatMode === "track") {
+      this.begin(0);
+      return;
+    }
+    if (!this.playNext()) {
+      // Stop at the end of the list, like the other players
+      this.setAnchor(this.getDuration());
+      this.paused = true;
+      this.emitState();
+    }
+  };
+
+  private setAnchor(position: number): void {
+    this.anchor = { position, at: performance.now() };
+  }
+
+  private getPosition(): number {
+    if (this.paused) return this.anchor.position;
+    return Math.min(this.getDuration(), this.anchor.position + performance.now() - this.anchor.at);
+  }
+
+  private getDuration(): number {
+    return (this.order.current?.duration ?? 0) * 1000;
+  }
+
+  private emitState(): void {
+    this.emitter.emit({ type: "state", state: this.readState() });
+  }
+
+  private readState(): SpotifyPlayerState | null {
+    const song = this.order.current;
+    if (!song) return null;
+
+    return {
+      device_id: DEMO_DEVICE_ID,
+      position: this.getPosition(),
+      duration: this.getDuration(),
+      paused: this.paused,
+      shuffle: this.order.shuffle,
+      repeat_mode: this.order.repeatMode,
+      track_window: {
+        current_track: {
+          id: song.id,
+          name: song.title,
+          artists: [{ name: song.artist }],
+          album: {
+            name: song.album,
+            images: [{ url: song.albumArt }],
+          },
+          uri: song.uri,
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Demo Spotify API Service
+ *
+ * Stands in for the Web API in demo mode, answering from the bundled
+ * catalog with songs and pages shaped like the real service's.
+ * Liked Songs and playlists live in memory, so changes last until the page
+ * reloads. Responses are slightly delayed to keep loading states visible.
+ */
+
+import { moodClassifier, MOOD_COLORS } from "./moodClassifier";
+import { DEMO_DEVICE_ID } from "./demoPlaybackBackend";
+import {
+  DEMO_ARTISTS,
+  DEMO_LIKED_TRACK_IDS,
+  DEMO_RECENTLY_PLAYED,
+  DEMO_TOP_TRACK_IDS,
+  DEMO_TRACKS,
+  DEMO_USER,
+  demoCoverArt,
+} from "../fixtures/demoCatalog";
+import type { DemoTrack } from "../fixtures/demoCatalog";
+import type { SpotifyApi } from "./spotifyApi";
+import type {
+  AudioFeatures,
+  PlaylistAddResult,
+  Song,
+  SpotifyDevice,
+  SpotifyPlayerState,
+  SongPage,
+  TimeRange,
+} from "../types/music";
+
+const SIMULATED_LATENCY_MS = 250;
+
+const DEFAULT_AUDIO_FEATURES: AudioFeatures = {
+  energy: 0.5,
+  valence: 0.5,
+  danceability: 0.5,
+  acousticness: 0.5,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const tracksById = new Map(DEMO_TRACKS.map((track) => [track.id, track]));
+const artistsById = new Map(DEMO_ARTISTS.map((artist) => [artist.id, artist]));
+
+export class DemoSpotifyApiService implements SpotifyApi {
+  // Newest first, like Spotify's Liked Songs
+  private savedTrackIds = [...DEMO_LIKED_TRACK_IDS];
+  private playlistCount = 0;
+
+  async getUserTopTracks(
+    limit: number = 50,
+    timeRange: TimeRange = "medium_term"
+  ): Promise<Song[]> {
+    await sleep(SIMULATED_LATENCY_MS);
+    return this.toSongs(DEMO_TOP_TRACK_IDS[timeRange].slice(0, limit));
+  }
+
+  async getTracks(trackIds: string[]): Promise<Song[]> {
+    await sleep(SIMULATED_LATENCY_MS);
+    return this.toSongs([...new Set(trackIds)]);
+  }
+
+  async getRecentlyPlayed(limit: number = 50): Promise<Array<{ song: Song; playedAt: number }>> {
+    await sleep(SIMULATED_LATENCY_MS);
+    const now = Date.now();
+    return DEMO_RECENTLY_PLAYED.slice(0, limit).flatMap(({ trackId, minutesAgo }) => {
+      const track = tracksById.get(trackId);
+      return track ? [{ song: this.toSong(track), playedAt: now - minutesAgo * 60 * 1000 }] : [];
+    });
+  }
+
+  /** Matches titles, artists, albums and genres, case-insensitively. */
+  async searchTracks(
+    query: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<SongPage> {
+    await sleep(SIMULATED_LATENCY_MS);
+    const needle = query.trim().toLowerCase();
+    const matches = DEMO_TRACKS.filter((track) => {
+      const artists = track.artistIds.map((id) => artistsById.get(id));
+      return [
+        track.title,
+        track.album,
+        ...artists.map((artist) => artist?.name ?? ""),
+        ...artists.flatMap((artist) => artist?.genres ?? []),
+      ].some((field) => field.toLowerCase().includes(needle));
+    });
+
+    return this.toPage(matches.map((track) => track.id), limit, offset);
+  }
+
+  async getSavedTracks(limit: number = 50, offset: number = 0): Promise<SongPage> {
+    await sleep(SIMULATED_LATENCY_MS);
+    return this.toPage(this.savedTrackIds, limit, offset);
+  }
+
+  async checkSavedTracks(trackIds: string[]): Promise<Map<string, boolean>> {
+    return new Map(trackIds.map((id) => [id, this.savedTrackIds.includes(id)]));
+  }
+
+  async saveTracks(trackIds: string[]): Promise<void> {
+    await sleep(SIMULATED_LATENCY_MS);
+    const added = trackIds.filter((id) => !this.savedTrackIds.includes(id));
+    this.savedTrackIds = [...added, ...this.savedTrackIds];
+  }
+
+  async removeSavedTracks(trackIds: string[]): Promise<void> {
+    await sleep(SIMULATED_LATENCY_MS);
+    this.savedTrackIds = this.savedTrackIds.filter((id) => !trackIds.includes(id));
+  }
+
+  // There's nothing to open on Spotify, so the playlist has no URL
+  async createPlaylist(): Promise<{ id: string; url: string }> {
+    await sleep(SIMULATED_LATENCY_MS);
+    this.playlistCount++;
+    return { id: `demo-playlist-${this.playlistCount}`, url: "" };
+  }
+
+  async addTracksToPlaylist(
+    _playlistId: string,
+    uris: string[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<PlaylistAddResult> {
+    await sleep(SIMULATED_LATENCY_MS);
+    onProgress?.(uris.length, uris.length);
+    return { added: uris.length, failedUris: [] };
+  }
+
+  async getDevices(): Promise<SpotifyDevice[]> {
+    return [
+      { id: DEMO_DEVICE_ID, name: "Demo player", type: "Computer", isActive: true, volumePercent: null },
+    ];
+  }
+
+  // The demo player keeps its own state, so remote playback calls have nothing to do
+  async startPlayback(): Promise<void> {}
+
+  async addToQueue(): Promise<void> {}
+
+  async transferPlayback(): Promise<void> {}
+
+  async getPlaybackState(): Promise<SpotifyPlayerState | null> {
+    return null;
+  }
+
+  async pausePlayback(): Promise<void> {}
+
+  async resumePlayback(): Promise<void> {}
+
+  async seekPlayback(): Promise<void> {}
+
+  async setPlaybackVolume(): Promise<void> {}
+
+  async setShuffle(): Promise<void> {}
+
+  async setRepeatMode(): Promise<void> {}
+
+  async skipToNext(): Promise<void> {}
+
+  async skipToPrevious(): Promise<void> {}
+
+  async getCurrentUser() {
+    await sleep(SIMULATED_LATENCY_MS);
+    return DEMO_USER;
+  }
+
+  private toPage(trackIds: string[], limit: number, offset: number): SongPage {
+    const ids = trackIds.slice(offset, offset + limit);
+    const nextOffset = offset + ids.length;
+    return {
+      songs: this.toSongs(ids),
+      total: trackIds.length,
+      offset,
+      nextOffset: nextOffset < trackIds.length ? nextOffset : null,
+    };
+  }
+
+  private toSongs(trackIds: string[]): Song[] {
+    return trackIds.flatMap((id) => {
+      const track = tracksById.get(id);
+      return track ? [this.toSong(track)] : [];
+    });
+  }
+
+  // Classified on every call, so songs follow the current mood settings
+  private toSong(track: DemoTrack): Song {
+    const { energy, mood } = moodClassifier.classify(track.audioFeatures);
+    const artists = track.artistIds.flatMap((id) => artistsById.get(id) ?? []);
+    const genres = [...new Set(artists.flatMap((artist) => artist.genres))];
+
+    return {
+      id: track.id,
+      title: track.title,
+      artist: artists.map((artist) => artist.name).join(", "),
+      album: track.album,
+      albumArt: demoCoverArt(track.cover),
+      duration: Math.floor(track.durationMs / 1000),
+      genre: genres[0] ?? "Unknown",
+      genres,
+      artistIds: track.artistIds,
+      energy,
+      mood,
+      color: MOOD_COLORS[mood],
+      uri: `demo:track:${track.id}`,
+      previewUrl: null,
+      audioFeatures: track.audioFeatures ?? DEFAULT_AUDIO_FEATURES,
+      hasAudioFeatures: track.audioFeatures !== null,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Listening Log Service
+ *
+ * Records what was played in this browser, including how long each track
+ * actually played and whether it was skipped. Spotify's recently played list
+ * has neither, and leaves out anything played for under 30 seconds.
+ * Entries are persisted in localStorage per Spotify account, newest first.
+ */
+
+import { spotifyAuth } from "./spotifyAuth";
+import { isDemoMode } from "./demoMode";
+import { DEMO_USER } from "../fixtures/demoCatalog";
+
+export interface ListeningLogEntry {
+  trackId: string;
+  // Epoch milliseconds
+  startedAt: number;
+  playedMs: number;
+  durationMs: number;
+  skipped: boolean;
+}
+
+// Keep the log small enough for localStorage
+const MAX_ENTRIES = 500;
+
+class ListeningLogService {
+  private readonly STORAGE_KEY = "listening_log";
+  // Entries of the account they were loaded for
+  private loaded: { accountId: string; entries: ListeningLogEntry[] } | null = null;
+
+  /** Account new plays belong to. The demo has its own, so it never mixes with a real account's. */
+  getAccountId(): string | null {
+    return isDemoMode() ? DEMO_USER.id : spotifyAuth.getActiveAccountId();
+  }
+
+  private getStorageKey(accountId: string): string {
+    return `${this.STORAGE_KEY}:${accountId}`;
+  }
+
+  private loadEntries(accountId: string): ListeningLogEntry[] {
+    try {
+      let stored = localStorage.getItem(this.getStorageKey(accountId));
+      // The log predates accounts; it goes to whichever real account loads it first
+      const legacy = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored && legacy && !isDemoMode()) {
+        localStorage.setItem(this.getStorageKey(accountId), legacy);
+        localStorage.removeItem(this.STORAGE_KEY);
+        stored = legacy;
+      }
+      if (!stored) return [];
+
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error("Error parsing listening log:", error);
+      return [];
+    }
+  }
+
+  /** Entries for the active account, or none when signed out. */
+  getEntries(): ListeningLogEntry[] {
+    const accountId = this.getAccountId();
+    return accountId ? this.getAccountEntries(accountId) : [];
+  }
+
+  private getAccountEntries(accountId: string): ListeningLogEntry[] {
+    if (this.loaded?.accountId !== accountId) {
+      this.loaded = { accountId, entries: this.loadEntries(accountId) };
+    }
+    return this.loaded.entries;
+  }
+
+  /**
+   * Adds a play to the log of the account it started under, which may no
+   * longer be the active one by the time it ends.
+   */
+  record(accountId: string, entry: ListeningLogEntry): void {
+    // A play that outlives its account's removal must not bring its log back
+    if (!isDemoMode() && !spotifyAuth.getAccounts().some((account) => account.id === accountId)) {
+      return;
+    }
+
+    const entries = [entry, ...this.getAccountEntries(accountId)].slice(0, MAX_ENTRIES);
+    this.loaded = { accountId, entries };
+    try {
+      localStorage.setItem(this.getStorageKey(accountId), JSON.stringify(entries));
+    } catch (error) {
+      console.error("Error saving listening log:", error);
+    }
+  }
+
+  /** Deletes an account's log, e.g. when it's removed from this browser. */
+  clear(accountId: string): void {
+    localStorage.removeItem(this.getStorageKey(accountId));
+    if (this.loaded?.accountId === accountId) {
+      this.loaded = null;
+    }
+  }
+}
+
+export const listeningLog = new ListeningLogService();
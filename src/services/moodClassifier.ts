@@ -0,0 +1,161 @@
+/**
+ * Mood Classifier Service
+ *
+ * Turns Spotify audio features into an energy level and a mood label.
+ * The default strategy blends energy, danceability and acousticness into an
+ * intensity score and uses valence for emotional tone. Weights and thresholds
+ * are user-tunable and persisted in localStorage. Other strategies can be
+ * plugged in with `setStrategy`.
+ */
+
+import type { AudioFeatures, EnergyLevel, Mood, Song } from "../types/music";
+
+export interface MoodClassifierConfig {
+  weights: {
+    energy: number;
+    danceability: number;
+    acousticness: number;
+  };
+  thresholds: {
+    highIntensity: number;
+    lowIntensity: number;
+    positiveValence: number;
+    negativeValence: number;
+    acoustic: number;
+  };
+}
+
+export interface MoodClassification {
+  energy: EnergyLevel;
+  mood: Mood;
+  intensity: number;
+}
+
+export type MoodStrategy = (
+  features: AudioFeatures,
+  config: MoodClassifierConfig
+) => MoodClassification;
+
+export const DEFAULT_MOOD_CONFIG: MoodClassifierConfig = {
+  weights: {
+    energy: 0.5,
+    danceability: 0.3,
+    acousticness: 0.2,
+  },
+  thresholds: {
+    highIntensity: 0.65,
+    lowIntensity: 0.4,
+    positiveValence: 0.6,
+    negativeValence: 0.35,
+    acoustic: 0.7,
+  },
+};
+
+export const MOOD_COLORS: Record<Mood, string> = {
+  euphoric: "#EC4899",
+  energetic: "#EF4444",
+  balanced: "#F59E0B",
+  chill: "#6366F1",
+  melancholic: "#64748B",
+  acoustic: "#10B981",
+  unknown: "#9CA3AF",
+};
+
+export const MOOD_LABELS: Record<Mood, string> = {
+  euphoric: "Euphoric",
+  energetic: "Energetic",
+  balanced: "Balanced",
+  chill: "Chill",
+  melancholic: "Melancholic",
+  acoustic: "Acoustic",
+  unknown: "Unknown",
+};
+
+/**
+ * Weighted intensity score. Acousticness counts against intensity, so a slow
+ * but danceable acoustic track no longer reads as high energy.
+ */
+export const weightedMoodStrategy: MoodStrategy = (features, config) => {
+  const { weights, thresholds } = config;
+  const totalWeight = weights.energy + weights.danceability + weights.acousticness;
+
+  const intensity =
+    totalWeight > 0
+      ? (features.energy * weights.energy +
+          features.danceability * weights.danceability +
+          (1 - features.acousticness) * weights.acousticness) /
+        totalWeight
+      : features.energy;
+
+  let energy: EnergyLevel = "medium";
+  if (intensity >= thresholds.highIntensity) energy = "high";
+  else if (intensity < thresholds.lowIntensity) energy = "low";
+
+  let mood: Mood = "balanced";
+  if (features.acousticness >= thresholds.acoustic && energy !== "high") {
+    mood = "acoustic";
+  } else if (energy === "high") {
+    mood = features.valence >= thresholds.positiveValence ? "euphoric" : "energetic";
+  } else if (features.valence <= thresholds.negativeValence) {
+    mood = "melancholic";
+  } else if (energy === "low") {
+    mood = "chill";
+  }
+
+  return { energy, mood, intensity };
+};
+
+class MoodClassifierService {
+  private readonly STORAGE_KEY = "mood_classifier_config";
+  private strategy: MoodStrategy = weightedMoodStrategy;
+  private config: MoodClassifierConfig = this.loadConfig();
+
+  private loadConfig(): MoodClassifierConfig {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return DEFAULT_MOOD_CONFIG;
+
+      const parsed = JSON.parse(stored) as Partial<MoodClassifierConfig>;
+      return {
+        weights: { ...DEFAULT_MOOD_CONFIG.weights, ...parsed.weights },
+        thresholds: { ...DEFAULT_MOOD_CONFIG.thresholds, ...parsed.thresholds },
+      };
+    } catch (error) {
+      console.error("Error parsing mood classifier config:", error);
+      return DEFAULT_MOOD_CONFIG;
+    }
+  }
+
+  getConfig(): MoodClassifierConfig {
+    return this.config;
+  }
+
+  saveConfig(config: MoodClassifierConfig): void {
+    this.config = config;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(config));
+  }
+
+  resetConfig(): void {
+    this.config = DEFAULT_MOOD_CONFIG;
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  setStrategy(strategy: MoodStrategy): void {
+    this.strategy = strategy;
+  }
+
+  classify(features: AudioFeatures | null): MoodClassification {
+    if (!features) {
+      return { energy: "medium", mood: "unknown", intensity: 0.5 };
+    }
+    return this.strategy(features, this.config);
+  }
+
+  /** Re-derives a song's energy, mood and color from its audio features. */
+  applyTo(song: Song): Song {
+    const { energy, mood } = this.classify(song.hasAudioFeatures ? song.audioFeatures : null);
+    return { ...song, energy, mood, color: MOOD_COLORS[mood] };
+  }
+}
+
+export const moodClassifier = new MoodClassifierService();
@@ -0,0 +1,114 @@
+/**
+ * Persistent Cache
+ *
+ * A small IndexedDB-backed key/value cache with per-entry expiry.
+ * Each cache instance owns a namespace inside a shared object store, and
+ * every operation degrades to a cache miss when IndexedDB is unavailable.
+ */
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+}
+
+const DB_NAME = "music_gallery_cache";
+const DB_VERSION = 1;
+const STORE_NAME = "entries";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Error opening cache database:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+export class PersistentCache<T> {
+  private readonly namespace: string;
+  private readonly ttlMs: number;
+
+  constructor(namespace: string, ttlMs: number) {
+    this.namespace = namespace;
+    this.ttlMs = ttlMs;
+  }
+
+  private toKey(id: string): string {
+    return `${this.namespace}:${id}`;
+  }
+
+  async getMany(ids: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const db = await openDatabase();
+    if (!db || ids.length === 0) return found;
+
+    try {
+      const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+      const now = Date.now();
+
+      await Promise.all(
+        ids.map(
+          (id) =>
+            new Promise<void>((resolve) => {
+              const request = store.get(this.toKey(id));
+              request.onsuccess = () => {
+                const entry = request.result as CacheEntry<T> | undefined;
+                if (entry && entry.expiresAt > now) {
+                  found.set(id, entry.value);
+                }
+                resolve();
+              };
+              request.onerror = () => resolve();
+            })
+        )
+      );
+    } catch (error) {
+      console.error(`Error reading ${this.namespace} cache:`, error);
+    }
+
+    return found;
+  }
+
+  async setMany(values: Map<string, T>): Promise<void> {
+    const db = await openDatabase();
+    if (!db || values.size === 0) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const expiresAt = Date.now() + this.ttlMs;
+
+      values.forEach((value, id) => {
+        const entry: CacheEntry<T> = { key: this.toKey(id), value, expiresAt };
+        store.put(entry);
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error(`Error writing ${this.namespace} cache:`, error);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Playback Backend Interface
+ *
+ * Common contract for the ways the app can play music, so the UI doesn't
+ * need to know whether it is driving the Web Playback SDK, plain HTML5
+ * audio previews or the simulated player of demo mode.
+ */
+
+import type { RepeatMode, Song, SpotifyPlayerState } from "../types/music";
+
+export type PlaybackBackendKind = "sdk" | "preview" | "demo";
+
+// Connection lifecycle; only "ready" can play
+export type PlayerStatus =
+  | "idle"
+  | "loading-sdk"
+  | "connecting"
+  | "ready"
+  | "reconnecting"
+  | "failed";
+
+export type PlaybackEvent =
+  | { type: "status"; status: PlayerStatus; detail?: string }
+  // Sent on every (re)connection, which can come with a new device ID
+  | { type: "ready"; deviceId: string }
+  | { type: "state"; state: SpotifyPlayerState | null }
+  | { type: "device"; deviceId: string }
+  // Fatal errors mean the backend can't play at all and another should be used
+  | { type: "error"; message: string; fatal: boolean };
+
+export type PlaybackListener = (event: PlaybackEvent) => void;
+
+export interface PlaybackBackend {
+  readonly kind: PlaybackBackendKind;
+
+  /** Starts the backend; it emits "ready" once it can play. */
+  connect(): Promise<void>;
+  /** Starts over after a failure, e.g. when the user asks to retry. */
+  reconnect(): Promise<void>;
+  disconnect(): void;
+  subscribe(listener: PlaybackListener): () => void;
+
+  /** Plays `songs` as one list, starting at `offset`, or only loads it when `paused`. */
+  play(songs: Song[], offset: number, positionMs: number, paused?: boolean): Promise<void>;
+  /**
+   * Adds `song` to the player's own queue, to play after the current song
+   * and anything queued before it. The queue outlives the list being played.
+   */
+  enqueue(song: Song): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  seek(positionMs: number): Promise<void>;
+  setVolume(volume: number): Promise<void>;
+  getVolume(): Promise<number>;
+  setShuffle(shuffle: boolean): Promise<void>;
+  setRepeatMode(mode: RepeatMode): Promise<void>;
+  nextTrack(): Promise<void>;
+  previousTrack(): Promise<void>;
+  getCurrentState(): Promise<SpotifyPlayerState | null>;
+}
+
+/** Shared listener bookkeeping for backend implementations. */
+export class PlaybackEmitter {
+  private listeners = new Set<PlaybackListener>();
+
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: PlaybackEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Playback Order
+ *
+ * Track list bookkeeping for the backends that advance through songs
+ * themselves instead of leaving it to Spotify. Works out which song comes
+ * next in list or shuffle order: shuffle plays every song once per pass,
+ * and both orders stop after the last song unless the list repeats.
+ * Queued songs play first and, like Spotify's queue, survive a new list.
+ */
+
+import type { RepeatMode, Song } from "../types/music";
+
+export class PlaybackOrder {
+  shuffle = false;
+  repeatMode: RepeatMode = "off";
+
+  private songs: Song[] = [];
+  private index = -1;
+  // Songs played since the list started or last wrapped around
+  private playedIds = new Set<string>();
+  private queued: Song[] = [];
+  // Set while a song from the queue plays; the list resumes after it
+  private queuedSong: Song | null = null;
+
+  get current(): Song | null {
+    return this.queuedSong ?? this.songs[this.index] ?? null;
+  }
+
+  /** Position in the list, which stays put while queued songs play. */
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  /** Replaces the list; nothing is current until `moveTo`. */
+  load(songs: Song[]): void {
+    this.songs = songs;
+    this.index = -1;
+    this.queuedSong = null;
+    this.playedIds.clear();
+  }
+
+  enqueue(song: Song): void {
+    this.queued.push(song);
+  }
+
+  moveTo(index: number): void {
+    this.index = index;
+    this.queuedSong = null;
+    this.playedIds.add(this.songs[index].id);
+  }
+
+  /** First playable index from `from` moving in `direction`, or -1. */
+  find(from: number, direction: 1 | -1, canPlay: (song: Song) => boolean): number {
+    for (let i = from; i >= 0 && i < this.songs.length; i += direction) {
+      if (canPlay(this.songs[i])) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Moves on to the next queued song, or else the next song in the list.
+   * Returns false at the end of the list, leaving the current song as is.
+   */
+  advance(canPlay: (song: Song) => boolean): boolean {
+    while (this.queued.length > 0) {
+      const song = this.queued.shift()!;
+      if (canPlay(song)) {
+        this.queuedSong = song;
+        return true;
+      }
+    }
+
+    const next = this.next(canPlay);
+    if (next === -1) return false;
+    this.moveTo(next);
+    return true;
+  }
+
+  /** Wrapping around to a new pass only happens when repeating the list. */
+  private next(canPlay: (song: Song) => boolean): number {
+    if (!this.shuffle) {
+      const following = this.find(this.index + 1, 1, canPlay);
+      if (following !== -1 || this.repeatMode !== "context") return following;
+      return this.find(0, 1, canPlay);
+    }
+
+    const playable = this.songs
+      .map((song, i) => (canPlay(song) ? i : -1))
+      .filter((i) => i !== -1);
+    let candidates = playable.filter((i) => !this.playedIds.has(this.songs[i].id));
+
+    if (candidates.length === 0) {
+      if (this.repeatMode !== "context") return -1;
+      this.playedIds.clear();
+      // Avoid playing the same song twice in a row across passes
+      candidates = playable.length > 1 ? playable.filter((i) => i !== this.index) : playable;
+    }
+    if (candidates.length === 0) return -1;
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+}
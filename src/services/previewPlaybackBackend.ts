@@ -0,0 +1,219 @@
+/**
+ * Preview Playback Backend
+ *
+ * Plays Spotify's 30-second preview clips with an HTML5 audio element. Used
+ * for accounts that can't stream through the Web Playback SDK. It keeps its
+ * own track list, moves on to the next clip when one ends, and implements
+ * shuffle and repeat itself. Songs without a clip are skipped.
+ */
+
+import { PlaybackEmitter } from "./playbackBackend";
+import { PlaybackOrder } from "./playbackOrder";
+import type { PlaybackBackend, PlaybackListener } from "./playbackBackend";
+import type { RepeatMode, Song, SpotifyPlayerState } from "../types/music";
+
+// Reported before the clip's metadata has loaded
+const PREVIEW_DURATION_MS = 30000;
+// Past this point "previous" restarts the clip instead of going back
+const RESTART_THRESHOLD_MS = 3000;
+
+export const PREVIEW_DEVICE_ID = "preview";
+
+const hasPreview = (song: Song) => Boolean(song.previewUrl);
+
+export class PreviewPlaybackBackend implements PlaybackBackend {
+  readonly kind = "preview" as const;
+
+  private emitter = new PlaybackEmitter();
+  private audio: HTMLAudioElement;
+  private order = new PlaybackOrder();
+
+  constructor(initialVolume: number) {
+    this.audio = new Audio();
+    this.audio.volume = initialVolume;
+
+    this.audio.addEventListener("play", this.emitState);
+    this.audio.addEventListener("pause", this.emitState);
+    this.audio.addEventListener("seeked", this.emitState);
+    this.audio.addEventListener("loadedmetadata", this.emitState);
+    this.audio.addEventListener("ended", this.handleEnded);
+    this.audio.addEventListener("error", this.handleError);
+  }
+
+  subscribe(listener: PlaybackListener): () => void {
+    return this.emitter.subscribe(listener);
+  }
+
+  async connect(): Promise<void> {
+    this.emitter.emit({ type: "status", status: "ready" });
+    this.emitter.emit({ type: "ready", deviceId: PREVIEW_DEVICE_ID });
+    this.emitter.emit({ type: "device", deviceId: PREVIEW_DEVICE_ID });
+  }
+
+  // A plain audio element has no connection to lose
+  async reconnect(): Promise<void> {
+    await this.connect();
+  }
+
+  disconnect(): void {
+    this.audio.removeEventListener("ended", this.handleEnded);
+    this.audio.removeEventListener("error", this.handleError);
+    this.audio.pause();
+    this.audio.removeAttribute("src");
+    this.audio.load();
+  }
+
+  async play(
+    songs: Song[],
+    offset: number,
+    positionMs: number,
+    paused: boolean = false
+  ): Promise<void> {
+    this.order.load(songs);
+    const started = await this.playFrom(offset, 1, positionMs, paused);
+    if (!started) {
+      throw new Error("No preview clip is available for this track");
+    }
+  }
+
+  async enqueue(song: Song): Promise<void> {
+    this.order.enqueue(song);
+  }
+
+  async pause(): Promise<void> {
+    this.audio.pause();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.order.current) return;
+    await this.audio.play();
+  }
+
+  async seek(positionMs: number): Promise<void> {
+    this.audio.currentTime = positionMs / 1000;
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    this.audio.volume = Math.min(1, Math.max(0, volume));
+  }
+
+  async getVolume(): Promise<number> {
+    return this.audio.volume;
+  }
+
+  async setShuffle(shuffle: boolean): Promise<void> {
+    this.order.shuffle = shuffle;
+    this.emitState();
+  }
+
+  async setRepeatMode(mode: RepeatMode): Promise<void> {
+    this.order.repeatMode = mode;
+    this.audio.loop = mode === "track";
+    this.emitState();
+  }
+
+  async nextTrack(): Promise<void> {
+    await this.playNext();
+  }
+
+  async previousTrack(): Promise<void> {
+    if (this.audio.currentTime * 1000 > RESTART_THRESHOLD_MS || this.order.currentIndex <= 0) {
+      this.audio.currentTime = 0;
+      return;
+    }
+    await this.playFrom(this.order.currentIndex - 1, -1);
+  }
+
+  async getCurrentState(): Promise<SpotifyPlayerState | null> {
+    return this.readState();
+  }
+
+  /**
+   * Plays the first song with a preview clip starting at `index` and moving
+   * in `direction`, skipping songs Spotify has no preview for. Returns false
+   * when there is no such song.
+   */
+  private async playFrom(
+    index: number,
+    direction: 1 | -1,
+    positionMs: number = 0,
+    paused: boolean = false
+  ): Promise<boolean> {
+    const found = this.order.find(index, direction, hasPreview);
+    if (found === -1) return false;
+
+    this.order.moveTo(found);
+    await this.playCurrent(positionMs, paused);
+    return true;
+  }
+
+  private async playNext(): Promise<boolean> {
+    if (!this.order.advance(hasPreview)) return false;
+
+    await this.playCurrent();
+    return true;
+  }
+
+  private async playCurrent(positionMs: number = 0, paused: boolean = false): Promise<void> {
+    this.audio.src = this.order.current?.previewUrl ?? "";
+    this.audio.currentTime = positionMs / 1000;
+    if (!paused) {
+      await this.audio.play();
+    }
+  }
+
+  // Repeating a single track is handled by the audio element's loop flag
+  private handleEnded = () => {
+    this.playNext()
+      .then((started) => {
+        if (!started) this.emitState();
+      })
+      .catch((error) => {
+        console.error("Error playing next preview:", error);
+      });
+  };
+
+  private emitState = () => {
+    this.emitter.emit({ type: "state", state: this.readState() });
+  };
+
+  private handleError = () => {
+    // A cleared source also fires an error; only report real failures
+    if (!this.audio.getAttribute("src")) return;
+    this.emitter.emit({
+      type: "error",
+      message: "Couldn't load the preview clip",
+      fatal: false,
+    });
+  };
+
+  private readState(): SpotifyPlayerState | null {
+    const song = this.order.current;
+    if (!song) return null;
+
+    const duration = Number.isFinite(this.audio.duration)
+      ? this.audio.duration * 1000
+      : PREVIEW_DURATION_MS;
+
+    return {
+      device_id: PREVIEW_DEVICE_ID,
+      position: this.audio.currentTime * 1000,
+      duration,
+      paused: this.audio.paused,
+      shuffle: this.order.shuffle,
+      repeat_mode: this.order.repeatMode,
+      track_window: {
+        current_track: {
+          id: song.id,
+          name: song.title,
+          artists: [{ name: song.artist }],
+          album: {
+            name: song.album,
+            images: [{ url: song.albumArt }],
+          },
+          uri: song.uri,
+        },
+      },
+    };
+  }
+}
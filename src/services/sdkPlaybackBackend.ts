@@ -0,0 +1,501 @@
+/**
+ * Web Playback SDK Backend
+ *
+ * Streams full tracks in this browser through the Spotify Web Playback SDK.
+ * Requires a Premium account. Playback can also be handed to another Spotify
+ * Connect device, after which commands go through the Web API and the remote
+ * state is polled.
+ *
+ * The SDK player drops its connection on network loss, token expiry and
+ * sleep. This backend notices and reconnects with backoff, which registers
+ * a new device ID.
+ */
+
+import { spotifyAuth } from "./spotifyAuth";
+import { spotifyApi } from "./spotifyApi";
+import { PlaybackEmitter } from "./playbackBackend";
+import type { PlaybackBackend, PlaybackListener, PlayerStatus } from "./playbackBackend";
+import type { RepeatMode, Song, SpotifyPlayerState } from "../types/music";
+
+const SDK_URL = "https://sdk.scdn.co/spotify-player.js";
+const PLAYER_NAME = "Music Gallery Player";
+
+// How often to poll playback state while another device is playing
+const REMOTE_POLL_INTERVAL_MS = 3000;
+
+const MAX_RECONNECT_ATTEMPTS = 6;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Timers that fire this much later than scheduled mean the machine was asleep
+const HEARTBEAT_INTERVAL_MS = 15000;
+const SLEEP_GAP_MS = 30000;
+
+// Exponential backoff with jitter, never sooner than the base delay
+const getReconnectDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** attempt);
+  return BASE_RECONNECT_DELAY_MS + Math.random() * (ceiling - BASE_RECONNECT_DELAY_MS);
+};
+
+// The SDK reports repeat as 0 (off), 1 (context) or 2 (track)
+const SDK_REPEAT_MODES: RepeatMode[] = ["off", "context", "track"];
+
+let sdkLoader: Promise<void> | null = null;
+
+/** Loads the SDK script once; later calls share the same promise. */
+const loadSdk = (): Promise<void> => {
+  if (window.Spotify) return Promise.resolve();
+  if (sdkLoader) return sdkLoader;
+
+  sdkLoader = new Promise<void>((resolve, reject) => {
+    window.onSpotifyWebPlaybackSDKReady = () => resolve();
+
+    const script = document.createElement("script");
+    script.src = SDK_URL;
+    script.async = true;
+    script.onerror = () => {
+      sdkLoader = null;
+      script.remove();
+      reject(new Error("Failed to load the Spotify Web Playback SDK"));
+    };
+    document.body.appendChild(script);
+  });
+
+  return sdkLoader;
+};
+
+const toPlayerState = (
+  state: Spotify.PlaybackState,
+  deviceId: string
+): SpotifyPlayerState => {
+  const track = state.track_window.current_track;
+  return {
+    device_id: deviceId,
+    position: state.position,
+    duration: state.duration,
+    paused: state.paused,
+    shuffle: state.shuffle,
+    repeat_mode: SDK_REPEAT_MODES[state.repeat_mode] ?? "off",
+    track_window: {
+      current_track: {
+        id: track.id ?? "",
+        name: track.name,
+        artists: track.artists.map((artist) => ({ name: artist.name })),
+        album: {
+          name: track.album.name,
+          images: track.album.images.map(({ url, height, width }) => ({ url, height, width })),
+        },
+        uri: track.uri,
+      },
+    },
+  };
+};
+
+export class SdkPlaybackBackend implements PlaybackBackend {
+  readonly kind = "sdk" as const;
+
+  private emitter = new PlaybackEmitter();
+  private player: Spotify.Player | null = null;
+  private deviceId = "";
+  // Spotify Connect device playback was transferred to; empty means this browser
+  private remoteDeviceId = "";
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private volume: number;
+  private status: PlayerStatus = "idle";
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastHeartbeat = Date.now();
+  private disposed = false;
+  // Bumped by every startPlayer run, so an older run still awaiting gives up
+  private startAttempt = 0;
+
+  constructor(initialVolume: number) {
+    this.volume = initialVolume;
+  }
+
+  subscribe(listener: PlaybackListener): () => void {
+    return this.emitter.subscribe(listener);
+  }
+
+  get activeDeviceId(): string {
+    return this.remoteDeviceId || this.deviceId;
+  }
+
+  get isRemote(): boolean {
+    return Boolean(this.remoteDeviceId);
+  }
+
+  async connect(): Promise<void> {
+    this.disposed = false;
+    this.lastHeartbeat = Date.now();
+    this.heartbeatTimer = setInterval(this.checkHeartbeat, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener("online", this.verifyConnection);
+    await this.startPlayer();
+  }
+
+  async reconnect(): Promise<void> {
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
+    this.teardownPlayer();
+    await this.startPlayer();
+  }
+
+  disconnect(): void {
+    this.disposed = true;
+    this.clearReconnectTimer();
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    window.removeEventListener("online", this.verifyConnection);
+    this.stopPolling();
+    this.teardownPlayer();
+  }
+
+  private async startPlayer(): Promise<void> {
+    const attempt = ++this.startAttempt;
+    const isStale = () => this.disposed || attempt !== this.startAttempt;
+    this.setStatus(this.reconnectAttempt > 0 ? "reconnecting" : "loading-sdk");
+
+    try {
+      await loadSdk();
+    } catch (error) {
+      if (!isStale()) this.scheduleReconnect(`${error}`);
+      return;
+    }
+    if (isStale()) return;
+
+    if (this.reconnectAttempt === 0) {
+      this.setStatus("connecting");
+    }
+
+    const token = await spotifyAuth.getAccessToken();
+    if (isStale()) return;
+    if (!token) {
+      this.setStatus("failed", "Your Spotify session has ended. Please log in again.");
+      return;
+    }
+
+    const player = new window.Spotify.Player({
+      name: PLAYER_NAME,
+      getOAuthToken: (cb) => {
+        spotifyAuth.getAccessToken().then((token) => {
+          if (token) cb(token);
+        });
+      },
+      volume: this.volume,
+    });
+    this.player = player;
+
+    // Events from a player we've since replaced are ignored
+    const isCurrent = () => this.player === player;
+
+    // Initialization and account errors mean this browser can't stream at all
+    player.addListener("initialization_error", ({ message }) => {
+      if (isCurrent()) this.fail(`Initialization error: ${message}`, true);
+    });
+
+    player.addListener("account_error", ({ message }) => {
+      if (isCurrent()) this.fail(`Account error: ${message}`, true);
+    });
+
+    // Usually an expired token; get a fresh one and start over
+    player.addListener("authentication_error", ({ message }) => {
+      if (isCurrent()) this.recoverAuthentication(message);
+    });
+
+    player.addListener("playback_error", ({ message }) => {
+      if (isCurrent()) this.fail(`Playback error: ${message}`, false);
+    });
+
+    player.addListener("player_state_changed", (state) => {
+      // The local player goes quiet once playback moves elsewhere; polling takes over
+      if (!isCurrent() || this.isRemote) return;
+      this.emitter.emit({
+        type: "state",
+        state: state ? toPlayerState(state, this.deviceId) : null,
+      });
+    });
+
+    player.addListener("ready", ({ device_id }) => {
+      if (!isCurrent()) return;
+      console.log("Spotify Player ready with Device ID:", device_id);
+      this.deviceId = device_id;
+      this.reconnectAttempt = 0;
+      this.setStatus("ready");
+      this.emitter.emit({ type: "ready", deviceId: device_id });
+      this.emitter.emit({ type: "device", deviceId: this.activeDeviceId });
+    });
+
+    player.addListener("not_ready", ({ device_id }) => {
+      if (!isCurrent()) return;
+      console.log("Spotify Player not ready with Device ID:", device_id);
+      this.scheduleReconnect("The Spotify player went offline");
+    });
+
+    const connected = await player.connect();
+    if (isStale()) return;
+    if (!connected && isCurrent()) {
+      this.scheduleReconnect("Failed to connect to Spotify Player");
+    }
+  }
+
+  private teardownPlayer() {
+    const player = this.player;
+    this.player = null;
+    player?.disconnect();
+  }
+
+  private setStatus(status: PlayerStatus, detail?: string) {
+    this.status = status;
+    this.emitter.emit({ type: "status", status, detail });
+  }
+
+  /** Tries again after a backoff delay, giving up after a few attempts. */
+  private scheduleReconnect(reason: string) {
+    if (this.disposed || this.reconnectTimer) return;
+    this.teardownPlayer();
+
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.error("Giving up on the Spotify Player:", reason);
+      this.setStatus("failed", reason);
+      return;
+    }
+
+    const delay = getReconnectDelay(this.reconnectAttempt);
+    this.reconnectAttempt += 1;
+    this.setStatus("reconnecting", reason);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.startPlayer();
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private async recoverAuthentication(message: string) {
+    console.error("Spotify Player authentication error:", message);
+    const attempt = this.startAttempt;
+    const token = await spotifyAuth.forceRefresh();
+    // The player was disconnected or replaced while the token refreshed
+    if (this.disposed || attempt !== this.startAttempt) return;
+    // A refresh that failed for now leaves the session intact, so keep retrying
+    if (!token && spotifyAuth.isAuthenticated()) {
+      this.scheduleReconnect("Couldn't renew your Spotify session");
+      return;
+    }
+    if (!token) {
+      this.teardownPlayer();
+      this.setStatus("failed", "Your Spotify session has ended. Please log in again.");
+      return;
+    }
+    this.scheduleReconnect(`Authentication error: ${message}`);
+  }
+
+  /** Timers stall while the machine sleeps, so a long gap means it just woke up. */
+  private checkHeartbeat = () => {
+    const now = Date.now();
+    const slept = now - this.lastHeartbeat > HEARTBEAT_INTERVAL_MS + SLEEP_GAP_MS;
+    this.lastHeartbeat = now;
+    if (slept) {
+      this.verifyConnection();
+    }
+  };
+
+  /** Reconnects if Spotify no longer lists this browser as a device. */
+  private verifyConnection = async () => {
+    if (this.disposed) return;
+    if (this.status === "failed") {
+      await this.reconnect();
+      return;
+    }
+    if (this.status !== "ready") return;
+
+    try {
+      const devices = await spotifyApi.getDevices();
+      if (!devices.some((device) => device.id === this.deviceId)) {
+        this.scheduleReconnect("The Spotify player was disconnected");
+      }
+    } catch (error) {
+      console.error("Error checking Spotify devices:", error);
+    }
+  };
+
+  /**
+   * Plays the songs as one context, starting at `offset`.
+   * Spotify then handles advancing through the list and next/previous.
+   */
+  async play(
+    songs: Song[],
+    offset: number,
+    positionMs: number,
+    paused: boolean = false
+  ): Promise<void> {
+    if (!this.activeDeviceId) {
+      throw new Error("Player not ready");
+    }
+
+    await spotifyApi.startPlayback(this.activeDeviceId, {
+      uris: songs.map((song) => song.uri),
+      offset,
+      positionMs,
+    });
+    // Starting a list always plays it, so pause again right away
+    if (paused) {
+      await spotifyApi.pausePlayback(this.activeDeviceId);
+    }
+  }
+
+  async enqueue(song: Song): Promise<void> {
+    if (!this.activeDeviceId) {
+      throw new Error("Player not ready");
+    }
+
+    await spotifyApi.addToQueue(this.activeDeviceId, song.uri);
+  }
+
+  // Controls go through the SDK locally and through the Web API for remote devices
+
+  async pause(): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.pausePlayback(this.remoteDeviceId);
+    } else {
+      await this.player?.pause();
+    }
+  }
+
+  async resume(): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.resumePlayback(this.remoteDeviceId);
+    } else {
+      await this.player?.resume();
+    }
+  }
+
+  async seek(positionMs: number): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.seekPlayback(this.remoteDeviceId, positionMs);
+    } else {
+      await this.player?.seek(positionMs);
+    }
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.setPlaybackVolume(this.remoteDeviceId, volume);
+    } else {
+      this.volume = volume;
+      await this.player?.setVolume(volume);
+    }
+  }
+
+  async getVolume(): Promise<number> {
+    if (this.isRemote) {
+      const devices = await spotifyApi.getDevices();
+      const device = devices.find((item) => item.id === this.remoteDeviceId);
+      return device && device.volumePercent !== null ? device.volumePercent / 100 : this.volume;
+    }
+
+    return (await this.player?.getVolume()) ?? this.volume;
+  }
+
+  // The SDK has no shuffle or repeat controls, so both go through the Web API
+
+  async setShuffle(shuffle: boolean): Promise<void> {
+    await spotifyApi.setShuffle(this.activeDeviceId, shuffle);
+  }
+
+  async setRepeatMode(mode: RepeatMode): Promise<void> {
+    await spotifyApi.setRepeatMode(this.activeDeviceId, mode);
+  }
+
+  async nextTrack(): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.skipToNext(this.remoteDeviceId);
+    } else {
+      await this.player?.nextTrack();
+    }
+  }
+
+  async previousTrack(): Promise<void> {
+    if (this.isRemote) {
+      await spotifyApi.skipToPrevious(this.remoteDeviceId);
+    } else {
+      await this.player?.previousTrack();
+    }
+  }
+
+  async getCurrentState(): Promise<SpotifyPlayerState | null> {
+    if (this.isRemote) {
+      return spotifyApi.getPlaybackState();
+    }
+
+    const state = await this.player?.getCurrentState();
+    return state ? toPlayerState(state, this.deviceId) : null;
+  }
+
+  /** Moves playback to another Spotify Connect device, or back to this browser. */
+  async transferPlayback(targetDeviceId: string): Promise<void> {
+    await spotifyApi.transferPlayback(targetDeviceId, true);
+    this.followDevice(targetDeviceId);
+  }
+
+  /** Points controls at the given device; this browser's ID or "" means local. */
+  private followDevice(targetDeviceId: string) {
+    this.remoteDeviceId = targetDeviceId === this.deviceId ? "" : targetDeviceId;
+
+    if (this.isRemote) {
+      if (!this.pollTimer) this.startPolling();
+    } else {
+      this.stopPolling();
+    }
+    this.emitter.emit({ type: "device", deviceId: this.activeDeviceId });
+  }
+
+  private fail(message: string, fatal: boolean) {
+    console.error("Spotify Player error:", message);
+    this.emitter.emit({ type: "error", message, fatal });
+  }
+
+  private startPolling() {
+    this.stopPolling();
+
+    const poll = async () => {
+      try {
+        const state = await spotifyApi.getPlaybackState();
+        if (!this.isRemote) return;
+
+        // Spotify reports no playback once the remote device goes away
+        if (!state) {
+          this.followDevice("");
+          this.fail("Lost connection to the remote device; controls are back on this browser", false);
+          return;
+        }
+
+        // Playback was moved from another app, so follow it
+        if (state.device_id !== this.remoteDeviceId) {
+          this.followDevice(state.device_id);
+        }
+        this.emitter.emit({ type: "state", state });
+      } catch (error) {
+        console.error("Error polling playback state:", error);
+      }
+    };
+
+    poll();
+    this.pollTimer = setInterval(poll, REMOTE_POLL_INTERVAL_MS);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
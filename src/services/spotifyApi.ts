@@ -7,12 +7,26 @@
 
 import { spotifyAuth } from "./spotifyAuth";
 import { SPOTIFY_CONFIG } from "../config/spotify";
-import type { Song } from "../types/music";
+import { PersistentCache } from "./persistentCache";
+import { moodClassifier, MOOD_COLORS } from "./moodClassifier";
+import { isDemoMode } from "./demoMode";
+import { DemoSpotifyApiService } from "./demoSpotifyApi";
+import type {
+  AudioFeatures,
+  PlaylistAddResult,
+  PlaylistDetails,
+  RepeatMode,
+  Song,
+  SpotifyDevice,
+  SpotifyPlayerState,
+  SongPage,
+  TimeRange,
+} from "../types/music";
 
 interface SpotifyTrack {
   id: string;
   name: string;
-  artists: Array<{ name: string }>;
+  artists: Array<{ id: string; name: string }>;
   album: {
     name: string;
     images: Array<{ url: string; height: number; width: number }>;
@@ -29,114 +43,371 @@ interface SpotifySearchResponse {
   tracks: {
     items: SpotifyTrack[];
     total: number;
+    limit: number;
+    offset: number;
+    next: string | null;
   };
 }
 
-interface AudioFeatures {
-  energy: number;
-  valence: number;
-  danceability: number;
-  acousticness: number;
+// Retry policy for rate limits, server errors and network failures
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+// Give up instead of stalling the UI when Spotify asks us to wait longer than this
+const MAX_RETRY_AFTER_MS = 30000;
+
+export class SpotifyApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SpotifyApiError";
+    this.status = status;
+  }
 }
 
+// The /audio-features endpoint accepts at most 100 IDs per call
+const AUDIO_FEATURES_BATCH_SIZE = 100;
+const AUDIO_FEATURES_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The /artists endpoint accepts at most 50 IDs per call
+const ARTISTS_BATCH_SIZE = 50;
+// Artist genres drift over time, so cache them for less long
+const ARTIST_GENRES_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_AUDIO_FEATURES: AudioFeatures = {
+  energy: 0.5,
+  valence: 0.5,
+  danceability: 0.5,
+  acousticness: 0.5,
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// The saved tracks endpoints accept at most 50 IDs per call
+const LIBRARY_BATCH_SIZE = 50;
+
+// The /tracks endpoint accepts at most 50 IDs per call
+const TRACKS_BATCH_SIZE = 50;
+
+// The playlist items endpoint accepts at most 100 URIs per call
+const PLAYLIST_ADD_BATCH_SIZE = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter
+const getBackoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+};
+
+const getRetryAfterDelay = (response: Response): number | null => {
+  const header = response.headers.get("Retry-After");
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
 class SpotifyApiService {
+  private audioFeaturesCache = new PersistentCache<AudioFeatures>(
+    "audio_features",
+    AUDIO_FEATURES_TTL_MS
+  );
+  private artistGenresCache = new PersistentCache<string[]>(
+    "artist_genres",
+    ARTIST_GENRES_TTL_MS
+  );
+
+  // Identical GETs issued while one is already pending share its promise
+  private inFlightRequests = new Map<string, Promise<unknown>>();
+
   private async makeRequest<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const accessToken = await spotifyAuth.getAccessToken();
+    const method = (options.method || "GET").toUpperCase();
+    if (method !== "GET" || options.body) {
+      return this.executeRequest<T>(endpoint, options);
+    }
 
-    if (!accessToken) {
-      throw new Error("No valid access token available");
+    // Another account's response must never answer this one's request
+    const key = `${spotifyAuth.getActiveAccountId()}:${endpoint}`;
+    const pending = this.inFlightRequests.get(key);
+    if (pending) {
+      return pending as Promise<T>;
     }
 
-    const response = await fetch(`${SPOTIFY_CONFIG.API_BASE_URL}${endpoint}`, {
-      ...options,
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
+    const request = this.executeRequest<T>(endpoint, options).finally(() => {
+      this.inFlightRequests.delete(key);
     });
+    this.inFlightRequests.set(key, request);
+    return request;
+  }
+
+  private async executeRequest<T>(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<T> {
+    let attempt = 0;
+    let hasRefreshedToken = false;
+
+    while (true) {
+      const accessToken = await spotifyAuth.getAccessToken();
+
+      if (!accessToken) {
+        throw new SpotifyApiError("No valid access token available", 401);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${SPOTIFY_CONFIG.API_BASE_URL}${endpoint}`, {
+          ...options,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+            ...options.headers,
+          },
+        });
+      } catch (error) {
+        // Network failure
+        if (attempt < MAX_RETRIES) {
+          await sleep(getBackoffDelay(attempt++));
+          continue;
+        }
+        throw new SpotifyApiError(
+          `Network error: ${error instanceof Error ? error.message : String(error)}`,
+          0
+        );
+      }
+
+      if (response.ok) {
+        // Player and library endpoints answer with empty bodies
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
 
-    if (!response.ok) {
       if (response.status === 401) {
-        spotifyAuth.logout();
-        throw new Error("Authentication expired");
+        // The token may have been revoked early; refresh once before giving up
+        if (!hasRefreshedToken) {
+          hasRefreshedToken = true;
+          if (await spotifyAuth.forceRefresh()) continue;
+        }
+        // spotifyAuth has already logged out if the session can't be renewed
+        throw new SpotifyApiError("Authentication expired", 401);
+      }
+
+      if (response.status === 429 && attempt < MAX_RETRIES) {
+        const retryAfter = getRetryAfterDelay(response);
+        if (retryAfter === null || retryAfter <= MAX_RETRY_AFTER_MS) {
+          await sleep(retryAfter ?? getBackoffDelay(attempt));
+          attempt++;
+          continue;
+        }
+      }
+
+      if (response.status >= 500 && attempt < MAX_RETRIES) {
+        await sleep(getBackoffDelay(attempt++));
+        continue;
       }
+
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(`API request failed: ${errorData.error?.message || response.statusText}`);
+      throw new SpotifyApiError(
+        `API request failed: ${errorData.error?.message || response.statusText}`,
+        response.status
+      );
     }
-
-    return response.json();
   }
 
-  async getUserTopTracks(limit: number = 50): Promise<Song[]> {
+  async getUserTopTracks(
+    limit: number = 50,
+    timeRange: TimeRange = "medium_term"
+  ): Promise<Song[]> {
     try {
       const response = await this.makeRequest<{ items: SpotifyTrack[] }>(
-        `/me/top/tracks?limit=${limit}&time_range=medium_term`
+        `/me/top/tracks?limit=${limit}&time_range=${timeRange}`
       );
 
       if (!response.items || response.items.length === 0) {
         return [];
       }
 
-      // Get audio features for energy classification
-      const trackIds = response.items.map((track) => track.id).join(",");
-      const audioFeatures = await this.getAudioFeatures(trackIds);
+      return await this.buildSongs(response.items);
+    } catch (error) {
+      console.error("Error fetching user top tracks:", error);
+      throw error;
+    }
+  }
 
-      return response.items.map((track, index) =>
-        this.convertSpotifyTrackToSong(track, audioFeatures[index])
+  /** Looks up full songs by ID; tracks Spotify no longer has are left out. */
+  async getTracks(trackIds: string[]): Promise<Song[]> {
+    try {
+      const batches = await Promise.all(
+        chunk([...new Set(trackIds)], TRACKS_BATCH_SIZE).map((batch) =>
+          this.makeRequest<{ tracks: (SpotifyTrack | null)[] }>(`/tracks?ids=${batch.join(",")}`)
+        )
       );
+      const tracks = batches
+        .flatMap((response) => response.tracks)
+        .filter((track): track is SpotifyTrack => track !== null);
+
+      return tracks.length > 0 ? await this.buildSongs(tracks) : [];
     } catch (error) {
-      console.error("Error fetching user top tracks:", error);
+      console.error("Error fetching tracks:", error);
       throw error;
     }
   }
 
-  private async getAudioFeatures(trackIds: string): Promise<AudioFeatures[]> {
+  /** Fetches the user's most recently played tracks, newest first. */
+  async getRecentlyPlayed(limit: number = 50): Promise<Array<{ song: Song; playedAt: number }>> {
     try {
       const response = await this.makeRequest<{
-        audio_features: (AudioFeatures | null)[];
-      }>(`/audio-features?ids=${trackIds}`);
-      
-      // Filter out null values and provide defaults
-      return response.audio_features.map(features => features || {
-        energy: 0.5,
-        valence: 0.5,
-        danceability: 0.5,
-        acousticness: 0.5,
-      });
-    } catch (error) {
-      console.error("Error fetching audio features:", error);
-      // Return default features if API call fails
-      return trackIds.split(",").map(() => ({
-        energy: 0.5,
-        valence: 0.5,
-        danceability: 0.5,
-        acousticness: 0.5,
+        items: Array<{ track: SpotifyTrack; played_at: string }>;
+      }>(`/me/player/recently-played?limit=${limit}`);
+
+      if (!response.items || response.items.length === 0) {
+        return [];
+      }
+
+      const songs = await this.buildSongs(response.items.map((item) => item.track));
+      return response.items.map((item, i) => ({
+        song: songs[i],
+        playedAt: Date.parse(item.played_at),
       }));
+    } catch (error) {
+      console.error("Error fetching recently played tracks:", error);
+      throw error;
     }
   }
 
-  async searchTracks(query: string, limit: number = 20): Promise<Song[]> {
+  /**
+   * Converts tracks to songs, enriching them with audio features for mood
+   * classification and artist genres. Both lookups run in parallel.
+   */
+  private async buildSongs(tracks: SpotifyTrack[]): Promise<Song[]> {
+    const trackIds = tracks.map((track) => track.id);
+    const artistIds = tracks.flatMap((track) => track.artists.map((artist) => artist.id));
+
+    const [audioFeatures, artistGenres] = await Promise.all([
+      this.getAudioFeatures(trackIds),
+      this.getArtistGenres(artistIds),
+    ]);
+
+    return tracks.map((track, index) =>
+      this.convertSpotifyTrackToSong(track, audioFeatures[index], artistGenres)
+    );
+  }
+
+  /**
+   * Looks up genres for the given artists, keyed by artist ID.
+   * Cached genres are reused and the rest are fetched in API-sized batches.
+   * Artists whose lookup failed are missing from the result.
+   */
+  private async getArtistGenres(
+    artistIds: string[]
+  ): Promise<Map<string, string[]>> {
+    const uniqueIds = [...new Set(artistIds.filter(Boolean))];
+    const genres = await this.artistGenresCache.getMany(uniqueIds);
+    const missingIds = uniqueIds.filter((id) => !genres.has(id));
+
+    const fetched = new Map<string, string[]>();
+    await Promise.all(
+      chunk(missingIds, ARTISTS_BATCH_SIZE).map(async (batch) => {
+        try {
+          const response = await this.makeRequest<{
+            artists: ({ id: string; genres: string[] } | null)[];
+          }>(`/artists?ids=${batch.join(",")}`);
+
+          response.artists.forEach((artist) => {
+            if (artist) {
+              fetched.set(artist.id, artist.genres ?? []);
+            }
+          });
+        } catch (error) {
+          console.error("Error fetching artist genres:", error);
+        }
+      })
+    );
+
+    await this.artistGenresCache.setMany(fetched);
+    fetched.forEach((value, id) => genres.set(id, value));
+
+    return genres;
+  }
+
+  /**
+   * Looks up audio features for the given tracks, in the same order.
+   * Cached features are reused and the rest are fetched in API-sized batches.
+   * Entries are null when Spotify has no features for a track or the lookup failed.
+   */
+  private async getAudioFeatures(
+    trackIds: string[]
+  ): Promise<(AudioFeatures | null)[]> {
+    const features = await this.audioFeaturesCache.getMany(trackIds);
+    const missingIds = [...new Set(trackIds.filter((id) => !features.has(id)))];
+
+    const fetched = new Map<string, AudioFeatures>();
+    await Promise.all(
+      chunk(missingIds, AUDIO_FEATURES_BATCH_SIZE).map(async (batch) => {
+        try {
+          const response = await this.makeRequest<{
+            audio_features: (AudioFeatures | null)[];
+          }>(`/audio-features?ids=${batch.join(",")}`);
+
+          response.audio_features.forEach((item, index) => {
+            if (item) {
+              fetched.set(batch[index], {
+                energy: item.energy,
+                valence: item.valence,
+                danceability: item.danceability,
+                acousticness: item.acousticness,
+              });
+            }
+          });
+        } catch (error) {
+          console.error("Error fetching audio features:", error);
+        }
+      })
+    );
+
+    await this.audioFeaturesCache.setMany(fetched);
+    fetched.forEach((value, id) => features.set(id, value));
+
+    return trackIds.map((id) => features.get(id) ?? null);
+  }
+
+  async searchTracks(
+    query: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<SongPage> {
     try {
       const encodedQuery = encodeURIComponent(query);
       const response = await this.makeRequest<SpotifySearchResponse>(
-        `/search?q=${encodedQuery}&type=track&limit=${limit}`
+        `/search?q=${encodedQuery}&type=track&limit=${limit}&offset=${offset}`
       );
 
-      if (!response.tracks.items || response.tracks.items.length === 0) {
-        return [];
-      }
+      const { items, total, next } = response.tracks;
 
-      // Get audio features for energy classification
-      const trackIds = response.tracks.items.map((track) => track.id).join(",");
-      const audioFeatures = await this.getAudioFeatures(trackIds);
+      if (!items || items.length === 0) {
+        return { songs: [], total, offset, nextOffset: null };
+      }
 
-      return response.tracks.items.map((track, index) =>
-        this.convertSpotifyTrackToSong(track, audioFeatures[index])
-      );
+      return {
+        songs: await this.buildSongs(items),
+        total,
+        offset,
+        nextOffset: next ? offset + items.length : null,
+      };
     } catch (error) {
       console.error("Error searching tracks:", error);
       throw error;
@@ -145,14 +416,16 @@ class SpotifyApiService {
 
   private convertSpotifyTrackToSong(
     track: SpotifyTrack,
-    audioFeatures?: AudioFeatures
+    audioFeatures: AudioFeatures | null = null,
+    artistGenres: Map<string, string[]> = new Map()
   ): Song {
-    // Determine energy level based on danceability
-    let energy: "low" | "medium" | "high" = "medium";
-    if (audioFeatures) {
-      if (audioFeatures.danceability > 0.7) energy = "high";
-      else if (audioFeatures.danceability < 0.4) energy = "low";
-    }
+    // Classify energy and mood from the combined audio features
+    const { energy, mood } = moodClassifier.classify(audioFeatures);
+
+    // Tracks have no genres of their own, so combine their artists' genres
+    const genres = [
+      ...new Set(track.artists.flatMap((artist) => artistGenres.get(artist.id) ?? [])),
+    ];
 
     // Get the best quality album art
     const albumArt =
@@ -160,13 +433,6 @@ class SpotifyApiService {
         ? track.album.images[0].url
         : "https://images.pexels.com/photos/1763075/pexels-photo-1763075.jpeg?auto=compress&cs=tinysrgb&w=400";
 
-    // Generate color based on energy level
-    const colors = {
-      high: "#EF4444",
-      medium: "#F59E0B",
-      low: "#6366F1",
-    };
-
     return {
       id: track.id,
       title: track.name,
@@ -174,15 +440,271 @@ class SpotifyApiService {
       album: track.album.name,
       albumArt,
       duration: Math.floor(track.duration_ms / 1000),
-      genre: "Unknown",
+      genre: genres[0] ?? "Unknown",
+      genres,
+      artistIds: track.artists.map((artist) => artist.id),
       energy,
-      color: colors[energy],
+      mood,
+      color: MOOD_COLORS[mood],
       spotifyUrl: track.external_urls.spotify,
       uri: track.uri,
-      danceability: audioFeatures?.danceability || 0.5,
+      previewUrl: track.preview_url,
+      audioFeatures: audioFeatures ?? DEFAULT_AUDIO_FEATURES,
+      hasAudioFeatures: audioFeatures !== null,
     };
   }
 
+  async getSavedTracks(limit: number = 50, offset: number = 0): Promise<SongPage> {
+    try {
+      const response = await this.makeRequest<{
+        items: Array<{ track: SpotifyTrack | null }>;
+        total: number;
+        next: string | null;
+      }>(`/me/tracks?limit=${limit}&offset=${offset}`);
+
+      // Local files and unavailable tracks come back without a playable track
+      const tracks = response.items
+        .map((item) => item.track)
+        .filter((track): track is SpotifyTrack => track !== null && Boolean(track.id));
+
+      return {
+        songs: tracks.length > 0 ? await this.buildSongs(tracks) : [],
+        total: response.total,
+        offset,
+        nextOffset: response.next ? offset + response.items.length : null,
+      };
+    } catch (error) {
+      console.error("Error fetching saved tracks:", error);
+      throw error;
+    }
+  }
+
+  /** Checks which of the given tracks are in the user's Liked Songs. */
+  async checkSavedTracks(trackIds: string[]): Promise<Map<string, boolean>> {
+    const saved = new Map<string, boolean>();
+    const uniqueIds = [...new Set(trackIds)];
+
+    await Promise.all(
+      chunk(uniqueIds, LIBRARY_BATCH_SIZE).map(async (batch) => {
+        try {
+          const response = await this.makeRequest<boolean[]>(
+            `/me/tracks/contains?ids=${batch.join(",")}`
+          );
+          batch.forEach((id, index) => saved.set(id, response[index]));
+        } catch (error) {
+          console.error("Error checking saved tracks:", error);
+        }
+      })
+    );
+
+    return saved;
+  }
+
+  async saveTracks(trackIds: string[]): Promise<void> {
+    for (const batch of chunk(trackIds, LIBRARY_BATCH_SIZE)) {
+      await this.makeRequest(`/me/tracks?ids=${batch.join(",")}`, { method: "PUT" });
+    }
+  }
+
+  async removeSavedTracks(trackIds: string[]): Promise<void> {
+    for (const batch of chunk(trackIds, LIBRARY_BATCH_SIZE)) {
+      await this.makeRequest(`/me/tracks?ids=${batch.join(",")}`, { method: "DELETE" });
+    }
+  }
+
+  async createPlaylist(
+    userId: string,
+    details: PlaylistDetails
+  ): Promise<{ id: string; url: string }> {
+    try {
+      const playlist = await this.makeRequest<{
+        id: string;
+        external_urls: { spotify: string };
+      }>(`/users/${encodeURIComponent(userId)}/playlists`, {
+        method: "POST",
+        body: JSON.stringify({
+          name: details.name,
+          description: details.description,
+          public: details.isPublic,
+        }),
+      });
+
+      return { id: playlist.id, url: playlist.external_urls.spotify };
+    } catch (error) {
+      console.error("Error creating playlist:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Appends tracks to a playlist in order, one chunk at a time.
+   * A failed chunk is recorded and skipped so the rest can still be added.
+   */
+  async addTracksToPlaylist(
+    playlistId: string,
+    uris: string[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<PlaylistAddResult> {
+    const result: PlaylistAddResult = { added: 0, failedUris: [] };
+    let processed = 0;
+
+    for (const batch of chunk(uris, PLAYLIST_ADD_BATCH_SIZE)) {
+      try {
+        await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+          method: "POST",
+          body: JSON.stringify({ uris: batch }),
+        });
+        result.added += batch.length;
+      } catch (error) {
+        console.error("Error adding tracks to playlist:", error);
+        result.failedUris.push(...batch);
+      }
+
+      processed += batch.length;
+      onProgress?.(processed, uris.length);
+    }
+
+    return result;
+  }
+
+  async startPlayback(
+    deviceId: string,
+    options: { uris: string[]; offset?: number; positionMs?: number }
+  ): Promise<void> {
+    await this.makeRequest(`/me/player/play?device_id=${deviceId}`, {
+      method: "PUT",
+      body: JSON.stringify({
+        uris: options.uris,
+        offset: { position: options.offset ?? 0 },
+        position_ms: options.positionMs ?? 0,
+      }),
+    });
+  }
+
+  /** Adds a track to the device's queue, after anything queued before it. */
+  async addToQueue(deviceId: string, uri: string): Promise<void> {
+    await this.makeRequest(
+      `/me/player/queue?uri=${encodeURIComponent(uri)}&device_id=${deviceId}`,
+      { method: "POST" }
+    );
+  }
+
+  async getDevices(): Promise<SpotifyDevice[]> {
+    try {
+      const response = await this.makeRequest<{
+        devices: Array<{
+          id: string | null;
+          name: string;
+          type: string;
+          is_active: boolean;
+          is_restricted: boolean;
+          volume_percent: number | null;
+        }>;
+      }>("/me/player/devices");
+
+      // Restricted devices and devices without an ID can't be controlled
+      return response.devices
+        .filter((device) => device.id && !device.is_restricted)
+        .map((device) => ({
+          id: device.id as string,
+          name: device.name,
+          type: device.type,
+          isActive: device.is_active,
+          volumePercent: device.volume_percent,
+        }));
+    } catch (error) {
+      console.error("Error fetching devices:", error);
+      throw error;
+    }
+  }
+
+  async transferPlayback(deviceId: string, play: boolean = true): Promise<void> {
+    await this.makeRequest("/me/player", {
+      method: "PUT",
+      body: JSON.stringify({ device_ids: [deviceId], play }),
+    });
+  }
+
+  /**
+   * Reads the current playback state from the Web API, in the same shape the
+   * Web Playback SDK reports it. Returns null when nothing is playing.
+   */
+  async getPlaybackState(): Promise<SpotifyPlayerState | null> {
+    const response = await this.makeRequest<{
+      device: { id: string };
+      progress_ms: number | null;
+      is_playing: boolean;
+      shuffle_state: boolean;
+      repeat_state: RepeatMode;
+      item: SpotifyTrack | null;
+    } | undefined>("/me/player");
+
+    if (!response?.item) {
+      return null;
+    }
+
+    return {
+      device_id: response.device.id,
+      position: response.progress_ms ?? 0,
+      duration: response.item.duration_ms,
+      paused: !response.is_playing,
+      shuffle: response.shuffle_state,
+      repeat_mode: response.repeat_state,
+      track_window: {
+        current_track: {
+          id: response.item.id,
+          name: response.item.name,
+          artists: response.item.artists,
+          album: response.item.album,
+          uri: response.item.uri,
+        },
+      },
+    };
+  }
+
+  async pausePlayback(deviceId: string): Promise<void> {
+    await this.makeRequest(`/me/player/pause?device_id=${deviceId}`, { method: "PUT" });
+  }
+
+  async resumePlayback(deviceId: string): Promise<void> {
+    await this.makeRequest(`/me/player/play?device_id=${deviceId}`, { method: "PUT" });
+  }
+
+  async seekPlayback(deviceId: string, positionMs: number): Promise<void> {
+    await this.makeRequest(
+      `/me/player/seek?position_ms=${Math.round(positionMs)}&device_id=${deviceId}`,
+      { method: "PUT" }
+    );
+  }
+
+  async setPlaybackVolume(deviceId: string, volume: number): Promise<void> {
+    const volumePercent = Math.round(Math.min(1, Math.max(0, volume)) * 100);
+    await this.makeRequest(
+      `/me/player/volume?volume_percent=${volumePercent}&device_id=${deviceId}`,
+      { method: "PUT" }
+    );
+  }
+
+  async setShuffle(deviceId: string, shuffle: boolean): Promise<void> {
+    await this.makeRequest(`/me/player/shuffle?state=${shuffle}&device_id=${deviceId}`, {
+      method: "PUT",
+    });
+  }
+
+  async setRepeatMode(deviceId: string, mode: RepeatMode): Promise<void> {
+    await this.makeRequest(`/me/player/repeat?state=${mode}&device_id=${deviceId}`, {
+      method: "PUT",
+    });
+  }
+
+  async skipToNext(deviceId: string): Promise<void> {
+    await this.makeRequest(`/me/player/next?device_id=${deviceId}`, { method: "POST" });
+  }
+
+  async skipToPrevious(deviceId: string): Promise<void> {
+    await this.makeRequest(`/me/player/previous?device_id=${deviceId}`, { method: "POST" });
+  }
+
   async getCurrentUser() {
     try {
       return await this.makeRequest<{
@@ -190,6 +712,7 @@ class SpotifyApiService {
         display_name: string;
         email: string;
         images: Array<{ url: string }>;
+        product?: string;
       }>("/me");
     } catch (error) {
       console.error("Error fetching current user:", error);
@@ -198,4 +721,9 @@ class SpotifyApiService {
   }
 }
 
-export const spotifyApi = new SpotifyApiService();
\ No newline at end of file
+// The public surface, which demo mode implements from fixtures
+export type SpotifyApi = { [K in keyof SpotifyApiService]: SpotifyApiService[K] };
+
+export const spotifyApi: SpotifyApi = isDemoMode()
+  ? new DemoSpotifyApiService()
+  : new SpotifyApiService();
\ No newline at end of file
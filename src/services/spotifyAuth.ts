@@ -3,9 +3,17 @@
  *
  * Handles OAuth 2.0 Authorization Code Flow with PKCE for secure authentication.
  * This service manages token storage, refresh, and validation.
+ *
+ * Several Spotify accounts can be signed in at once, each with its own
+ * tokens; one of them is active. Accounts are shared by every tab through
+ * localStorage. Storage events keep the auth state in sync across tabs, and a
+ * Web Lock makes sure only one tab refreshes an account's token at a time.
+ * The active account's token is refreshed a few minutes before it expires,
+ * so requests rarely have to wait for a refresh.
  */
 
-import { SPOTIFY_CONFIG } from "../config/spotify";
+import { SPOTIFY_CONFIG, CAPABILITY_SCOPES } from "../config/spotify";
+import type { Capability } from "../config/spotify";
 
 interface TokenResponse {
   access_token: string;
@@ -15,6 +23,16 @@ interface TokenResponse {
   scope: string;
 }
 
+// Refresh this long before the access token expires
+const REFRESH_AHEAD_MS = 5 * 60 * 1000;
+// Attempts per refresh when Spotify or the network fails
+const MAX_REFRESH_ATTEMPTS = 3;
+const REFRESH_RETRY_DELAY_MS = 2000;
+// After all attempts fail, wait this long before the next scheduled try
+const REFRESH_RECOVERY_DELAY_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 interface StoredTokens {
   accessToken: string;
   refreshToken?: string;
@@ -22,11 +40,219 @@ interface StoredTokens {
   scope: string;
 }
 
+export interface AccountProfile {
+  // Spotify user ID
+  id: string;
+  displayName: string;
+  profileImage?: string;
+}
+
+interface StoredAccount {
+  profile: AccountProfile;
+  tokens: StoredTokens;
+}
+
+interface AccountStore {
+  activeId: string | null;
+  accounts: Record<string, StoredAccount>;
+}
+
+// Holds a session from before accounts were stored separately, until its profile loads
+const LEGACY_ACCOUNT_ID = "legacy";
+
+export interface AuthState {
+  isAuthenticated: boolean;
+  accountId: string | null;
+  accounts: AccountProfile[];
+  expiresAt: number | null;
+  scope: string | null;
+}
+
+export interface AuthChange {
+  state: AuthState;
+  // Whether the tokens were changed by this tab or by another one
+  origin: "this-tab" | "other-tab";
+}
+
+type AuthListener = (change: AuthChange) => void;
+
+// A login started by initiateAuth and waiting for Spotify to redirect back
+interface PendingAuthRequest {
+  state: string;
+  codeVerifier: string;
+  returnPath: string;
+  // Opaque action to resume once the user is back, see takeResumeAction
+  resumeAction: string | null;
+}
+
+export type AuthCallbackErrorCode =
+  // The user declined on Spotify's consent screen
+  | "access_denied"
+  // Spotify sent back some other `error`, kept in `detail`
+  | "authorize_error"
+  // No login was started in this tab, or it was already completed
+  | "no_pending_login"
+  // The callback was already handled, e.g. after a reload or going back
+  | "replayed"
+  | "state_mismatch"
+  | "missing_code"
+  // The token request failed; `detail` holds Spotify's error code if any
+  | "exchange_failed";
+
+export class AuthCallbackError extends Error {
+  readonly code: AuthCallbackErrorCode;
+  readonly detail: string | null;
+
+  constructor(code: AuthCallbackErrorCode, message: string, detail: string | null = null) {
+    super(message);
+    this.name = "AuthCallbackError";
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+/** Scopes `capability` needs that aren't in the space-separated `grantedScope`. */
+export const getMissingScopes = (grantedScope: string | null, capability: Capability): string[] => {
+  const granted = new Set((grantedScope ?? "").split(" ").filter(Boolean));
+  return CAPABILITY_SCOPES[capability].filter((scope) => !granted.has(scope));
+};
+
+// Only same-origin paths, so a tampered value can't send the user elsewhere
+const sanitizeReturnPath = (path: string | undefined): string =>
+  path && path.startsWith("/") && !path.startsWith("//") && !path.startsWith("/callback")
+    ? path
+    : "/";
+
 class SpotifyAuthService {
-  private readonly STORAGE_KEY = "spotify_tokens";
-  private readonly CODE_VERIFIER_KEY = "spotify_code_verifier";
+  private readonly STORAGE_KEY = "spotify_accounts";
+  // Where the single token set lived before accounts
+  private readonly LEGACY_TOKENS_KEY = "spotify_tokens";
+  private readonly AUTH_REQUEST_KEY = "spotify_auth_request";
+  // State of the last callback handled in this tab
+  private readonly HANDLED_STATE_KEY = "spotify_handled_auth_state";
+  private readonly RESUME_ACTION_KEY = "spotify_resume_action";
+  private readonly REFRESH_LOCK = "spotify_token_refresh";
+
+  private listeners = new Set<AuthListener>();
+  // Shared by concurrent refresh requests for an account within this tab
+  private refreshInFlight = new Map<string, Promise<string | null>>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // StrictMode runs the callback effect twice; both runs share one exchange
+  private callbackInFlight: { query: string; result: Promise<string> } | null = null;
+
+  constructor() {
+    window.addEventListener("storage", (event) => {
+      // A null key means another tab cleared all of localStorage
+      if (event.key === this.STORAGE_KEY || event.key === null) {
+        this.handleTokensChanged("other-tab");
+      }
+    });
+    this.migrateLegacyTokens();
+    this.scheduleRefresh();
+  }
+
+  /** Listens for sign-in, token refresh and sign-out, in this tab or any other. */
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getAuthState(): AuthState {
+    const tokens = this.getStoredTokens();
+    return {
+      isAuthenticated: this.isAuthenticated(),
+      accountId: this.getActiveAccountId(),
+      accounts: this.getAccounts(),
+      expiresAt: tokens?.expiresAt ?? null,
+      scope: tokens?.scope ?? null,
+    };
+  }
+
+  getActiveAccountId(): string | null {
+    return this.readAccounts().activeId;
+  }
+
+  getAccounts(): AccountProfile[] {
+    return Object.values(this.readAccounts().accounts).map((account) => account.profile);
+  }
 
-  private generateCodeVerifier(): string {
+  /** Makes another signed-in account the active one, in every tab. */
+  switchAccount(accountId: string): void {
+    const store = this.readAccounts();
+    if (!store.accounts[accountId] || store.activeId === accountId) return;
+    this.writeAccounts({ ...store, activeId: accountId });
+  }
+
+  /**
+   * Signs one account out and leaves the others signed in. Removing the
+   * active account switches to another one if there is any.
+   */
+  removeAccount(accountId: string): void {
+    const store = this.readAccounts();
+    if (!store.accounts[accountId]) return;
+
+    const accounts = { ...store.accounts };
+    delete accounts[accountId];
+    const activeId = store.activeId === accountId
+      ? Object.keys(accounts)[0] ?? null
+      : store.activeId;
+
+    if (!activeId) {
+      this.logout();
+      return;
+    }
+    this.writeAccounts({ activeId, accounts });
+  }
+
+  /**
+   * Keeps the name and picture shown in the account switcher current. A
+   * session migrated from before accounts gets its real ID here.
+   */
+  updateProfile(profile: AccountProfile): void {
+    const store = this.readAccounts();
+    const activeId = store.activeId;
+    if (!activeId || (activeId !== profile.id && activeId !== LEGACY_ACCOUNT_ID)) return;
+
+    const account = store.accounts[activeId];
+    if (activeId === profile.id && JSON.stringify(account.profile) === JSON.stringify(profile)) return;
+
+    const accounts = { ...store.accounts };
+    delete accounts[activeId];
+    accounts[profile.id] = { ...account, profile };
+    this.writeAccounts({ activeId: profile.id, accounts });
+  }
+
+  private handleTokensChanged(origin: AuthChange["origin"]): void {
+    this.scheduleRefresh();
+    const change = { state: this.getAuthState(), origin };
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  /**
+   * Plans the next refresh ahead of expiry, or at `at` when retrying.
+   * Every tab keeps a timer; the first to fire refreshes and the rest
+   * find the new token once they get the lock.
+   */
+  private scheduleRefresh(at?: number): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    // Other accounts refresh when they are switched to
+    const tokens = this.getStoredTokens();
+    if (!tokens?.refreshToken) return;
+
+    const refreshAt = at ?? tokens.expiresAt - REFRESH_AHEAD_MS;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshTokens();
+    }, Math.max(0, refreshAt - Date.now()));
+  }
+
+  private generateRandomToken(): string {
     const array = new Uint8Array(32);
     crypto.getRandomValues(array);
     return btoa(String.fromCharCode(...array))
@@ -45,15 +271,46 @@ class SpotifyAuthService {
       .replace(/=/g, "");
   }
 
-  async initiateAuth(): Promise<void> {
+  /**
+   * Sends the user to Spotify to log in. They come back to `returnPath`,
+   * which defaults to the current page.
+   */
+  async initiateAuth(returnPath?: string): Promise<void> {
+    await this.authorize({ returnPath, scopes: SPOTIFY_CONFIG.SCOPES, resumeAction: null });
+  }
+
+  /**
+   * Asks Spotify for the scopes `capability` needs on top of those already
+   * granted. The current session stays valid if the user declines, and
+   * `resumeAction` can be picked up with takeResumeAction once they're back.
+   */
+  async requestCapability(capability: Capability, resumeAction?: string): Promise<void> {
+    const scopes = new Set([...this.getGrantedScopes(), ...CAPABILITY_SCOPES[capability]]);
+    await this.authorize({
+      scopes: [...scopes].join(" "),
+      resumeAction: resumeAction ?? null,
+    });
+  }
+
+  private async authorize(options: {
+    returnPath?: string;
+    scopes: string;
+    resumeAction: string | null;
+  }): Promise<void> {
     try {
-      // Clear any existing tokens first
-      this.logout();
-      
-      const codeVerifier = this.generateCodeVerifier();
-      const codeChallenge = await this.generateCodeChallenge(codeVerifier);
+      const request: PendingAuthRequest = {
+        state: this.generateRandomToken(),
+        codeVerifier: this.generateRandomToken(),
+        returnPath: sanitizeReturnPath(
+          options.returnPath ?? window.location.pathname + window.location.search + window.location.hash
+        ),
+        resumeAction: options.resumeAction,
+      };
+      const codeChallenge = await this.generateCodeChallenge(request.codeVerifier);
 
-      sessionStorage.setItem(this.CODE_VERIFIER_KEY, codeVerifier);
+      // Signed-in accounts stay put; the login adds an account or updates the one it matches
+      sessionStorage.removeItem(this.RESUME_ACTION_KEY);
+      sessionStorage.setItem(this.AUTH_REQUEST_KEY, JSON.stringify(request));
 
       const params = new URLSearchParams({
         client_id: SPOTIFY_CONFIG.CLIENT_ID,
@@ -61,7 +318,8 @@ class SpotifyAuthService {
         redirect_uri: SPOTIFY_CONFIG.REDIRECT_URI,
         code_challenge_method: "S256",
         code_challenge: codeChallenge,
-        scope: SPOTIFY_CONFIG.SCOPES,
+        scope: options.scopes,
+        state: request.state,
         show_dialog: "true",
       });
 
@@ -73,13 +331,54 @@ class SpotifyAuthService {
     }
   }
 
-  async handleCallback(code: string): Promise<boolean> {
-    try {
-      const codeVerifier = sessionStorage.getItem(this.CODE_VERIFIER_KEY);
-      if (!codeVerifier) {
-        throw new Error("Code verifier not found in session storage");
-      }
+  /**
+   * Completes the login from the /callback query string and returns the path
+   * to send the user back to. Throws an AuthCallbackError describing what
+   * went wrong otherwise.
+   */
+  handleCallback(params: URLSearchParams): Promise<string> {
+    const query = params.toString();
+    if (this.callbackInFlight?.query !== query) {
+      this.callbackInFlight = { query, result: this.completeCallback(params) };
+    }
+    return this.callbackInFlight.result;
+  }
+
+  private async completeCallback(params: URLSearchParams): Promise<string> {
+    const state = params.get("state");
+    // The request is single use, whatever the outcome
+    const request = this.takePendingAuthRequest();
 
+    if (state && state === sessionStorage.getItem(this.HANDLED_STATE_KEY)) {
+      throw new AuthCallbackError("replayed", "This login response was already used");
+    }
+
+    const error = params.get("error");
+    if (error) {
+      throw new AuthCallbackError(
+        error === "access_denied" ? "access_denied" : "authorize_error",
+        `Authentication error: ${error}`,
+        error
+      );
+    }
+
+    if (!request) {
+      throw new AuthCallbackError("no_pending_login", "No login is waiting for a response in this tab");
+    }
+
+    // Protects against a callback for a login this tab never started (CSRF)
+    if (state !== request.state) {
+      throw new AuthCallbackError("state_mismatch", "Login response state doesn't match the request");
+    }
+
+    const code = params.get("code");
+    if (!code) {
+      throw new AuthCallbackError("missing_code", "No authorization code received");
+    }
+
+    sessionStorage.setItem(this.HANDLED_STATE_KEY, state);
+
+    try {
       const response = await fetch(SPOTIFY_CONFIG.TOKEN_URL, {
         method: "POST",
         headers: {
@@ -90,55 +389,156 @@ class SpotifyAuthService {
           grant_type: "authorization_code",
           code,
           redirect_uri: SPOTIFY_CONFIG.REDIRECT_URI,
-          code_verifier: codeVerifier,
+          code_verifier: request.codeVerifier,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Token exchange failed: ${errorData.error_description || response.statusText}`);
+        throw new AuthCallbackError(
+          "exchange_failed",
+          `Token exchange failed: ${errorData.error_description || response.statusText}`,
+          errorData.error ?? null
+        );
       }
 
       const tokens: TokenResponse = await response.json();
-      this.storeTokens(tokens);
-
-      // Clean up code verifier
-      sessionStorage.removeItem(this.CODE_VERIFIER_KEY);
+      // Logging in again with a known account replaces its tokens
+      const profile = await this.fetchProfile(tokens.access_token);
+      const store = this.readAccounts();
+      this.writeAccounts({
+        activeId: profile.id,
+        accounts: {
+          ...store.accounts,
+          [profile.id]: { profile, tokens: this.toStoredTokens(tokens) },
+        },
+      });
 
-      return true;
+      if (request.resumeAction) {
+        sessionStorage.setItem(this.RESUME_ACTION_KEY, request.resumeAction);
+      }
+      return request.returnPath;
     } catch (error) {
       console.error("Error handling OAuth callback:", error);
-      // Clean up on error
-      sessionStorage.removeItem(this.CODE_VERIFIER_KEY);
-      return false;
+      if (error instanceof AuthCallbackError) throw error;
+      throw new AuthCallbackError(
+        "exchange_failed",
+        `Token exchange failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /** Returns the action passed to requestCapability, once, after consent is granted. */
+  takeResumeAction(): string | null {
+    const action = sessionStorage.getItem(this.RESUME_ACTION_KEY);
+    sessionStorage.removeItem(this.RESUME_ACTION_KEY);
+    return action;
+  }
+
+  private takePendingAuthRequest(): PendingAuthRequest | null {
+    const stored = sessionStorage.getItem(this.AUTH_REQUEST_KEY);
+    sessionStorage.removeItem(this.AUTH_REQUEST_KEY);
+    try {
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error parsing pending auth request:", error);
+      return null;
     }
   }
 
-  private storeTokens(tokens: TokenResponse): void {
-    const storedTokens: StoredTokens = {
+  /** Identifies the account a new token belongs to. */
+  private async fetchProfile(accessToken: string): Promise<AccountProfile> {
+    const response = await fetch(`${SPOTIFY_CONFIG.API_BASE_URL}/me`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to load the Spotify profile: ${response.statusText}`);
+    }
+
+    const user: { id: string; display_name: string | null; images?: Array<{ url: string }> } =
+      await response.json();
+    return {
+      id: user.id,
+      displayName: user.display_name || user.id,
+      profileImage: user.images?.[0]?.url,
+    };
+  }
+
+  private toStoredTokens(tokens: TokenResponse): StoredTokens {
+    return {
       accessToken: tokens.access_token,
       refreshToken: tokens.refresh_token,
       expiresAt: Date.now() + (tokens.expires_in - 60) * 1000, // Subtract 60 seconds for buffer
       scope: tokens.scope,
     };
+  }
+
+  /** Saves refreshed tokens, unless the account was removed in the meantime. */
+  private storeTokens(accountId: string, tokens: TokenResponse): void {
+    const store = this.readAccounts();
+    const account = store.accounts[accountId];
+    if (!account) return;
 
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(storedTokens));
+    this.writeAccounts({
+      ...store,
+      accounts: { ...store.accounts, [accountId]: { ...account, tokens: this.toStoredTokens(tokens) } },
+    });
   }
 
-  private getStoredTokens(): StoredTokens | null {
+  private readAccounts(): AccountStore {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : null;
+      return stored ? JSON.parse(stored) : { activeId: null, accounts: {} };
     } catch (error) {
-      console.error("Error parsing stored tokens:", error);
-      this.logout();
-      return null;
+      console.error("Error parsing stored accounts:", error);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return { activeId: null, accounts: {} };
     }
   }
 
+  private writeAccounts(store: AccountStore): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(store));
+    this.handleTokensChanged("this-tab");
+  }
+
+  private getStoredTokens(accountId = this.getActiveAccountId()): StoredTokens | null {
+    if (!accountId) return null;
+    return this.readAccounts().accounts[accountId]?.tokens ?? null;
+  }
+
+  /** Adopts a single-account session as the active account. */
+  private migrateLegacyTokens(): void {
+    const legacy = localStorage.getItem(this.LEGACY_TOKENS_KEY);
+    if (!legacy) return;
+    localStorage.removeItem(this.LEGACY_TOKENS_KEY);
+
+    try {
+      const tokens: StoredTokens = JSON.parse(legacy);
+      if (this.getActiveAccountId()) return;
+      // The real ID and name arrive through updateProfile once the user loads
+      const profile = { id: LEGACY_ACCOUNT_ID, displayName: "Spotify account" };
+      localStorage.setItem(
+        this.STORAGE_KEY,
+        JSON.stringify({ activeId: LEGACY_ACCOUNT_ID, accounts: { [LEGACY_ACCOUNT_ID]: { profile, tokens } } })
+      );
+    } catch (error) {
+      console.error("Error migrating stored tokens:", error);
+    }
+  }
+
+  getGrantedScopes(): Set<string> {
+    const scope = this.getStoredTokens()?.scope ?? "";
+    return new Set(scope.split(" ").filter(Boolean));
+  }
+
+  hasCapability(capability: Capability): boolean {
+    return getMissingScopes(this.getStoredTokens()?.scope ?? null, capability).length === 0;
+  }
+
+  /** True while there is a usable access token or a refresh token to get one. */
   isAuthenticated(): boolean {
     const tokens = this.getStoredTokens();
-    return tokens !== null && tokens.expiresAt > Date.now();
+    return tokens !== null && (tokens.expiresAt > Date.now() || Boolean(tokens.refreshToken));
   }
 
   async getAccessToken(): Promise<string | null> {
@@ -152,49 +552,135 @@ class SpotifyAuthService {
 
     // Try to refresh token
     if (tokens.refreshToken) {
-      return await this.refreshAccessToken(tokens.refreshToken);
+      return await this.refreshTokens();
     }
 
     // No refresh token available, need to re-authenticate
-    this.logout();
+    this.removeActiveAccount();
     return null;
   }
 
-  private async refreshAccessToken(refreshToken: string): Promise<string | null> {
-    try {
-      const response = await fetch(SPOTIFY_CONFIG.TOKEN_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({
-          client_id: SPOTIFY_CONFIG.CLIENT_ID,
-          grant_type: "refresh_token",
-          refresh_token: refreshToken,
-        }),
+  /**
+   * Refreshes the access token even if it has not expired yet.
+   * Used when the API rejects a token we still consider valid. Signs the
+   * account out when there is no way to get a new token.
+   */
+  async forceRefresh(): Promise<string | null> {
+    const tokens = this.getStoredTokens();
+    if (!tokens?.refreshToken) {
+      this.removeActiveAccount();
+      return null;
+    }
+    return await this.refreshTokens(tokens.accessToken);
+  }
+
+  private removeActiveAccount(): void {
+    const accountId = this.getActiveAccountId();
+    if (accountId) {
+      this.removeAccount(accountId);
+    }
+  }
+
+  /**
+   * Refreshes once per tab and once across tabs. Whoever gets the lock
+   * second finds the new token in storage and uses it instead of refreshing
+   * again, which would fail once Spotify rotates the refresh token.
+   */
+  private refreshTokens(rejectedToken?: string): Promise<string | null> {
+    // Pinned so a switch mid-refresh can't store one account's token under another
+    const accountId = this.getActiveAccountId();
+    if (!accountId) return Promise.resolve(null);
+
+    let refresh = this.refreshInFlight.get(accountId);
+    if (!refresh) {
+      refresh = this.withRefreshLock(accountId, async () => {
+        const tokens = this.getStoredTokens(accountId);
+        // Another tab signed the account out while we waited
+        if (!tokens?.refreshToken) return null;
+
+        const refreshedElsewhere =
+          tokens.expiresAt - Date.now() > REFRESH_AHEAD_MS && tokens.accessToken !== rejectedToken;
+        if (refreshedElsewhere) return tokens.accessToken;
+
+        return await this.refreshAccessToken(accountId, tokens.refreshToken);
+      }).finally(() => {
+        this.refreshInFlight.delete(accountId);
       });
+      this.refreshInFlight.set(accountId, refresh);
+    }
+    return refresh;
+  }
 
-      if (!response.ok) {
-        throw new Error(`Token refresh failed: ${response.statusText}`);
+  private async withRefreshLock<T>(accountId: string, task: () => Promise<T>): Promise<T> {
+    // Without Web Locks, tabs may refresh concurrently; the in-tab guard still applies
+    if (!navigator.locks) return await task();
+    return await navigator.locks.request(`${this.REFRESH_LOCK}:${accountId}`, task);
+  }
+
+  /**
+   * Signs the account out only when Spotify rejects the refresh token.
+   * Network errors and server failures are retried, and if they persist the
+   * session is kept and the refresh is tried again later.
+   */
+  private async refreshAccessToken(accountId: string, refreshToken: string): Promise<string | null> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < MAX_REFRESH_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await sleep(REFRESH_RETRY_DELAY_MS * 2 ** (attempt - 1));
       }
 
-      const tokens: TokenResponse = await response.json();
-      this.storeTokens({
-        ...tokens,
-        refresh_token: tokens.refresh_token || refreshToken,
-      });
+      try {
+        const response = await fetch(SPOTIFY_CONFIG.TOKEN_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            client_id: SPOTIFY_CONFIG.CLIENT_ID,
+            grant_type: "refresh_token",
+            refresh_token: refreshToken,
+          }),
+        });
 
-      return tokens.access_token;
-    } catch (error) {
-      console.error("Error refreshing token:", error);
-      this.logout();
-      return null;
+        if (response.ok) {
+          const tokens: TokenResponse = await response.json();
+          this.storeTokens(accountId, {
+            ...tokens,
+            refresh_token: tokens.refresh_token || refreshToken,
+          });
+          return tokens.access_token;
+        }
+
+        // A 4xx other than throttling means the refresh token is revoked or already used
+        if (response.status < 500 && response.status !== 429) {
+          const errorData = await response.json().catch(() => ({}));
+          console.error("Refresh token rejected:", errorData.error_description || response.statusText);
+          this.removeAccount(accountId);
+          return null;
+        }
+
+        lastError = new Error(`Token refresh failed: ${response.statusText}`);
+      } catch (error) {
+        lastError = error;
+      }
     }
+
+    console.error("Error refreshing token:", lastError);
+    this.scheduleRefresh(Date.now() + REFRESH_RECOVERY_DELAY_MS);
+    return null;
   }
 
+  /** Signs every account out. */
   logout(): void {
+    const hadTokens = localStorage.getItem(this.STORAGE_KEY) !== null;
     localStorage.removeItem(this.STORAGE_KEY);
-    sessionStorage.removeItem(this.CODE_VERIFIER_KEY);
+    sessionStorage.removeItem(this.AUTH_REQUEST_KEY);
+    sessionStorage.removeItem(this.RESUME_ACTION_KEY);
+    // Other tabs hear about it through the storage event
+    if (hadTokens) {
+      this.handleTokensChanged("this-tab");
+    }
   }
 
   getStoredAccessToken(): string | null {
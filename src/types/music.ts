@@ -5,20 +5,95 @@ export interface Song {
   album: string;
   albumArt: string;
   duration: number;
+  // Primary genre, or "Unknown" when none of the artists have genres
   genre: string;
-  energy: "low" | "medium" | "high";
+  genres: string[];
+  artistIds: string[];
+  energy: EnergyLevel;
+  mood: Mood;
   color: string;
   spotifyUrl?: string;
   uri: string;
+  // 30-second clip for accounts that can't stream full tracks
+  previewUrl: string | null;
+  audioFeatures: AudioFeatures;
+  // False when Spotify had no features for the track and defaults were used
+  hasAudioFeatures: boolean;
+  rankChange?: RankChange;
+}
+
+export type EnergyLevel = "low" | "medium" | "high";
+
+export type Mood =
+  | "euphoric"
+  | "energetic"
+  | "balanced"
+  | "chill"
+  | "melancholic"
+  | "acoustic"
+  | "unknown";
+
+export interface AudioFeatures {
+  energy: number;
+  valence: number;
   danceability: number;
+  acousticness: number;
+}
+
+export type TrackSource = "top" | "liked" | "history";
+
+export type TimeRange = "short_term" | "medium_term" | "long_term";
+
+export interface RankChange {
+  status: "rose" | "fell" | "same" | "entered" | "left";
+  rank: number | null;
+  previousRank: number | null;
+}
+
+export interface SongPage {
+  songs: Song[];
+  total: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+export interface PlaylistDetails {
+  name: string;
+  description: string;
+  isPublic: boolean;
 }
 
+export interface PlaylistAddResult {
+  added: number;
+  failedUris: string[];
+}
+
+// What the player knows about the current track, which may not be on the board
+export type NowPlaying = Pick<
+  Song,
+  "id" | "title" | "artist" | "album" | "albumArt" | "duration" | "uri"
+>;
+
+// One play of a song, from Spotify's recently played list and/or our own log
+export interface HistoryEntry {
+  song: Song;
+  // When playback started, in epoch milliseconds
+  playedAt: number;
+  // Only known for plays recorded by the local listening log
+  playedMs: number | null;
+  skipped: boolean | null;
+}
+
+export type RepeatMode = "off" | "context" | "track";
+
 export interface PlaybackState {
   isPlaying: boolean;
-  currentSong: Song | null;
-  position: number;
-  duration: number;
+  currentSong: NowPlaying | null;
+  // Seconds into the current song
+  currentTime: number;
   volume: number;
+  shuffle: boolean;
+  repeatMode: RepeatMode;
 }
 
 export interface User {
@@ -26,6 +101,16 @@ export interface User {
   displayName: string;
   email: string;
   profileImage?: string;
+  // Subscription level, e.g. "premium" or "free"; null when Spotify doesn't say
+  product: string | null;
+}
+
+export interface SpotifyDevice {
+  id: string;
+  name: string;
+  type: string;
+  isActive: boolean;
+  volumePercent: number | null;
 }
 
 export interface SpotifyPlayerState {
@@ -33,6 +118,8 @@ export interface SpotifyPlayerState {
   position: number;
   duration: number;
   paused: boolean;
+  shuffle: boolean;
+  repeat_mode: RepeatMode;
   track_window: {
     current_track: {
       id: string;
@@ -40,7 +127,7 @@ export interface SpotifyPlayerState {
       artists: Array<{ name: string }>;
       album: {
         name: string;
-        images: Array<{ url: string }>;
+        images: Array<{ url: string; height?: number | null; width?: number | null }>;
       };
       uri: string;
     };
@@ -0,0 +1,78 @@
+/**
+ * Listening History
+ *
+ * Merges Spotify's recently played list with the local listening log into
+ * one timeline, and groups it by day for display.
+ */
+
+import type { ListeningLogEntry } from '../services/listeningLog';
+import type { HistoryEntry, Song } from '../types/music';
+
+// Extra slack when matching a local play to Spotify's record of it
+const MATCH_TOLERANCE_MS = 2 * 60 * 1000;
+
+/**
+ * Combines both sources, newest first. A Spotify play and a local play of the
+ * same track at about the same time are treated as one entry. Local plays of
+ * tracks missing from `songsById` are left out.
+ */
+export const mergeListeningHistory = (
+  recent: Array<{ song: Song; playedAt: number }>,
+  local: ListeningLogEntry[],
+  songsById: Map<string, Song>
+): HistoryEntry[] => {
+  const matched = new Set<ListeningLogEntry>();
+
+  const fromSpotify = recent.map(({ song, playedAt }) => {
+    // Spotify's timestamp can be the start or end of the play, so allow a full track either way
+    const localPlay = local.find(entry =>
+      !matched.has(entry) &&
+      entry.trackId === song.id &&
+      Math.abs(entry.startedAt - playedAt) <= entry.durationMs + MATCH_TOLERANCE_MS
+    );
+    if (localPlay) {
+      matched.add(localPlay);
+    }
+
+    return {
+      song,
+      playedAt: localPlay?.startedAt ?? playedAt,
+      playedMs: localPlay?.playedMs ?? null,
+      skipped: localPlay?.skipped ?? null,
+    };
+  });
+
+  const fromLog = local.flatMap(entry => {
+    const song = songsById.get(entry.trackId);
+    if (!song || matched.has(entry)) return [];
+    return [{
+      song,
+      playedAt: entry.startedAt,
+      playedMs: entry.playedMs,
+      skipped: entry.skipped,
+    }];
+  });
+
+  return [...fromSpotify, ...fromLog].sort((a, b) => b.playedAt - a.playedAt);
+};
+
+/** Splits a newest-first history into consecutive days in the local time zone. */
+export const groupHistoryByDay = (
+  history: HistoryEntry[]
+): Array<{ day: Date; entries: HistoryEntry[] }> => {
+  const groups: Array<{ day: Date; entries: HistoryEntry[] }> = [];
+
+  history.forEach(entry => {
+    const played = new Date(entry.playedAt);
+    const day = new Date(played.getFullYear(), played.getMonth(), played.getDate());
+    const last = groups[groups.length - 1];
+
+    if (last && last.day.getTime() === day.getTime()) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ day, entries: [entry] });
+    }
+  });
+
+  return groups;
+};
@@ -0,0 +1,52 @@
+/**
+ * Top Track Comparison
+ *
+ * Compares two top-track rankings to show how a user's taste has shifted.
+ */
+
+import type { RankChange, Song } from '../types/music';
+
+const getStatus = (rank: number, previousRank: number | undefined): RankChange['status'] => {
+  if (previousRank === undefined) return 'entered';
+  if (rank < previousRank) return 'rose';
+  if (rank > previousRank) return 'fell';
+  return 'same';
+};
+
+/** Whether a compared track is only shown for dropping out of the current ranking. */
+export const hasDroppedOut = (song: Song): boolean => song.rankChange?.status === 'left';
+
+/**
+ * Annotates `current` with each track's rank change relative to `baseline`.
+ * Tracks that only appear in the baseline are appended with a "left" status.
+ */
+export const compareTopTracks = (current: Song[], baseline: Song[]): Song[] => {
+  const baselineRanks = new Map(baseline.map((song, index) => [song.id, index + 1]));
+  const currentIds = new Set(current.map(song => song.id));
+
+  const ranked = current.map((song, index) => {
+    const rank = index + 1;
+    const previousRank = baselineRanks.get(song.id);
+    return {
+      ...song,
+      rankChange: {
+        status: getStatus(rank, previousRank),
+        rank,
+        previousRank: previousRank ?? null,
+      },
+    };
+  });
+
+  const left = baseline
+    .filter(song => !currentIds.has(song.id))
+    .map(song => ({
+      ...song,
+      rankChange: {
+        status: 'left' as const,
+        rank: null,
+        previousRank: baselineRanks.get(song.id) ?? null,
+      },
+    }));
+
+  return [...ranked, ...left];
+};
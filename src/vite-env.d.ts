@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPOTIFY_CLIENT_ID?: string;
+  readonly VITE_SPOTIFY_REDIRECT_URI?: string;
+  // Only needed to point the app at a proxy or mock of Spotify's servers
+  readonly VITE_SPOTIFY_API_BASE_URL?: string;
+  readonly VITE_SPOTIFY_ACCOUNTS_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}